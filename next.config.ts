@@ -2,6 +2,10 @@ import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // The dotprompt templates are read from disk at runtime (see src/ai/prompt-registry.ts).
+  outputFileTracingIncludes: {
+    '/**': ['./prompts/**'],
+  },
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,50 @@
+/**
+ * @fileOverview Stops a flow once the client that asked for it has gone away.
+ *
+ * - FlowAbortedError - Thrown into the flow when its request was aborted.
+ * - abortSignalFromContext - The AbortSignal a route passed as `context.abortSignal`, if any.
+ * - throwIfAborted - Throws FlowAbortedError once the signal has fired.
+ * - abortMiddleware - Model middleware that refuses to start a model call after the abort (a tool
+ *   loop, retry or fallback would otherwise keep spending quota) and stops waiting for a running one.
+ *
+ * Genkit has no cancellation of its own. The signal travels in the action context, so providers
+ * can read it with `ai.currentContext()`: the OpenAI-compatible and Ollama models pass it to
+ * `fetch` and cancel their response body, which stops the upstream generation. The Google AI
+ * plugin takes no signal; for it the middleware only stops waiting, and throwing from the chunk
+ * callback ends the flow's part of the stream.
+ */
+
+import type {ModelMiddleware} from 'genkit/model';
+
+export class FlowAbortedError extends Error {
+  constructor() {
+    super('The client aborted the request.');
+    this.name = 'FlowAbortedError';
+  }
+}
+
+export function abortSignalFromContext(context: Record<string, unknown> | undefined): AbortSignal | undefined {
+  const signal = context?.abortSignal;
+  return signal instanceof AbortSignal ? signal : undefined;
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new FlowAbortedError();
+}
+
+export function abortMiddleware(signal: AbortSignal | undefined): ModelMiddleware {
+  return async (request, next) => {
+    throwIfAborted(signal);
+    if (!signal) return next(request);
+    let onAbort: () => void = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(new FlowAbortedError());
+      signal.addEventListener('abort', onAbort, {once: true});
+    });
+    try {
+      return await Promise.race([next(request), aborted]);
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  };
+}
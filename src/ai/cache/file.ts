@@ -0,0 +1,54 @@
+/**
+ * @fileOverview A response cache that stores one JSON file per entry, so cached answers survive
+ * restarts and can be shared by processes on the same machine.
+ */
+
+import {promises as fs} from 'fs';
+import path from 'path';
+import type {ResponseCacheBackendFactory, ResponseCacheEntry} from './types';
+
+export const fileResponseCache: ResponseCacheBackendFactory = {
+  id: 'file',
+  create: (options) => {
+    const fileFor = (key: string) => path.join(options.dir, `${key}.json`);
+
+    // Removes the oldest files beyond maxEntries. Runs after each write, which is cheap at these sizes.
+    const prune = async () => {
+      const names = (await fs.readdir(options.dir)).filter(name => name.endsWith('.json'));
+      if (names.length <= options.maxEntries) return;
+      const files = await Promise.all(names.map(async name => {
+        const filePath = path.join(options.dir, name);
+        const {mtimeMs} = await fs.stat(filePath).catch(() => ({mtimeMs: 0}));
+        return {filePath, mtimeMs};
+      }));
+      files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+      await Promise.all(files.slice(0, files.length - options.maxEntries).map(file => fs.rm(file.filePath, {force: true})));
+    };
+
+    return {
+      id: 'file',
+      label: `Files in ${options.dir}`,
+      get: async (key) => {
+        let entry: ResponseCacheEntry;
+        try {
+          entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        } catch {
+          return undefined; // Missing or half-written
+        }
+        if (entry.expiresAt <= Date.now()) {
+          await fs.rm(fileFor(key), {force: true});
+          return undefined;
+        }
+        return entry;
+      },
+      set: async (key, entry) => {
+        await fs.mkdir(options.dir, {recursive: true});
+        // Write then rename, so readers never see a partial file.
+        const tempFile = `${fileFor(key)}.${process.pid}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify(entry));
+        await fs.rename(tempFile, fileFor(key));
+        await prune();
+      },
+    };
+  },
+};
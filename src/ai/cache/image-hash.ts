@@ -0,0 +1,42 @@
+/**
+ * @fileOverview Perceptual hashing of images for response cache keys.
+ *
+ * A difference hash (dHash): the image is shrunk to 9x8 grayscale and each bit records whether a
+ * pixel is darker than its right neighbour. Re-encoding, small resizes and sensor noise usually
+ * leave the 64 bits unchanged, so the same scene maps to the same key.
+ */
+
+import {createHash} from 'crypto';
+import sharp from 'sharp';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+function dataUriToBuffer(dataUri: string): Buffer {
+  return Buffer.from(dataUri.slice(dataUri.indexOf(',') + 1), 'base64');
+}
+
+/** Hex dHash of a data URI image; falls back to a SHA-256 of the bytes if the image cannot be decoded. */
+export async function perceptualImageHash(dataUri: string): Promise<string> {
+  const buffer = dataUriToBuffer(dataUri);
+  try {
+    const pixels = await sharp(buffer)
+      .rotate() // Honor EXIF orientation
+      .greyscale()
+      .resize(HASH_WIDTH, HASH_HEIGHT, {fit: 'fill'})
+      .raw()
+      .toBuffer();
+    let bits = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const index = y * HASH_WIDTH + x;
+        bits += pixels[index] < pixels[index + 1] ? '1' : '0';
+      }
+    }
+    // One hex digit per row half, 16 digits in total.
+    return `d${bits.match(/.{4}/g)!.map(nibble => parseInt(nibble, 2).toString(16)).join('')}`;
+  } catch (error) {
+    console.warn('[responseCache] Could not decode image for perceptual hashing, using an exact hash:', error);
+    return `s${createHash('sha256').update(buffer).digest('hex')}`;
+  }
+}
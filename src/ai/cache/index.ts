@@ -0,0 +1,152 @@
+/**
+ * @fileOverview Response cache in front of `contextualChatWithVisionFlow`, so re-asking the same
+ * question about the same scene does not spend model quota.
+ *
+ * The backend is selected with the `AI_RESPONSE_CACHE` environment variable:
+ * - `memory` (default) - in-process LRU.
+ * - `file` - one JSON file per entry in AI_RESPONSE_CACHE_DIR (default `.cache/visionai-responses`).
+ * - `off` - no caching.
+ *
+ * AI_RESPONSE_CACHE_TTL_MS (default 10 minutes) and AI_RESPONSE_CACHE_MAX_ENTRIES (default 500)
+ * bound how long and how many answers are kept. Cache failures are logged and treated as misses.
+ */
+
+import {createHash} from 'crypto';
+import path from 'path';
+import {positiveIntFromEnv} from '@/lib/env';
+import {fileResponseCache} from './file';
+import {perceptualImageHash} from './image-hash';
+import {memoryResponseCache} from './memory';
+import type {ResponseCacheBackend, ResponseCacheBackendFactory, ResponseCacheBackendId, ResponseCacheOptions} from './types';
+
+export type * from './types';
+
+export const responseCacheBackends: Record<ResponseCacheBackendId, ResponseCacheBackendFactory> = {
+  memory: memoryResponseCache,
+  file: fileResponseCache,
+};
+
+export const DEFAULT_RESPONSE_CACHE_BACKEND_ID: ResponseCacheBackendId = 'memory';
+
+export const DEFAULT_RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  ttlMs: 10 * 60 * 1000,
+  maxEntries: 500,
+  maxEntryBytes: 256 * 1024,
+  dir: path.join(process.cwd(), '.cache', 'visionai-responses'),
+};
+
+// Bump when the shape of cached values or the key changes, so stale entries are never read.
+const CACHE_KEY_VERSION = 4;
+
+function isResponseCacheBackendId(value: string): value is ResponseCacheBackendId {
+  return Object.prototype.hasOwnProperty.call(responseCacheBackends, value);
+}
+
+export interface ResponseCacheHit<T> {
+  value: T;
+  ageMs: number;
+}
+
+/** Typed wrapper around a backend that enforces TTL and size limits and counts hits and misses. */
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly backend: ResponseCacheBackend,
+    private readonly options: ResponseCacheOptions,
+  ) {}
+
+  async get<T>(key: string): Promise<ResponseCacheHit<T> | undefined> {
+    let hit: ResponseCacheHit<T> | undefined;
+    try {
+      const entry = await this.backend.get(key);
+      if (entry) hit = {value: entry.value as T, ageMs: Date.now() - entry.storedAt};
+    } catch (error) {
+      console.warn(`[responseCache] Lookup in ${this.backend.label} failed:`, error);
+    }
+    if (hit) this.hits++;
+    else this.misses++;
+    console.log(`[responseCache] ${hit ? 'Hit' : 'Miss'} ${key.slice(0, 12)}… (hits: ${this.hits}, misses: ${this.misses})`);
+    return hit;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(value));
+    if (size > this.options.maxEntryBytes) {
+      console.log(`[responseCache] Not caching ${key.slice(0, 12)}…: ${size} bytes exceeds ${this.options.maxEntryBytes}.`);
+      return;
+    }
+    const storedAt = Date.now();
+    try {
+      await this.backend.set(key, {value, storedAt, expiresAt: storedAt + this.options.ttlMs});
+    } catch (error) {
+      console.warn(`[responseCache] Storing in ${this.backend.label} failed:`, error);
+    }
+  }
+}
+
+let resolvedCache: ResponseCache | null | undefined;
+
+/** The configured cache, created on first use; null when AI_RESPONSE_CACHE is `off`. */
+export function resolveResponseCache(): ResponseCache | null {
+  if (resolvedCache !== undefined) return resolvedCache;
+  const requestedId = (process.env.AI_RESPONSE_CACHE || DEFAULT_RESPONSE_CACHE_BACKEND_ID).trim().toLowerCase();
+  if (requestedId === 'off') {
+    resolvedCache = null;
+    return resolvedCache;
+  }
+  if (!isResponseCacheBackendId(requestedId)) {
+    throw new Error(
+      `Unknown AI_RESPONSE_CACHE "${requestedId}". Expected one of: ${[...Object.keys(responseCacheBackends), 'off'].join(', ')}.`
+    );
+  }
+  const options: ResponseCacheOptions = {
+    ttlMs: positiveIntFromEnv(process.env.AI_RESPONSE_CACHE_TTL_MS, DEFAULT_RESPONSE_CACHE_OPTIONS.ttlMs),
+    maxEntries: positiveIntFromEnv(process.env.AI_RESPONSE_CACHE_MAX_ENTRIES, DEFAULT_RESPONSE_CACHE_OPTIONS.maxEntries),
+    maxEntryBytes: DEFAULT_RESPONSE_CACHE_OPTIONS.maxEntryBytes,
+    dir: process.env.AI_RESPONSE_CACHE_DIR?.trim() || DEFAULT_RESPONSE_CACHE_OPTIONS.dir,
+  };
+  const backend = responseCacheBackends[requestedId].create(options);
+  console.log(`[responseCache] Using ${backend.label} cache (TTL ${Math.round(options.ttlMs / 1000)}s, max ${options.maxEntries} entries).`);
+  resolvedCache = new ResponseCache(backend, options);
+  return resolvedCache;
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Case, spacing and trailing punctuation do not change what is being asked.
+export const normalizeQuestion = (question: string) =>
+  question.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[\s?!.]+$/, '');
+
+export interface ChatResponseCacheKeyParts {
+  question: string;
+  photoDataUri?: string;
+  contextPhotoDataUri?: string;
+  history?: {role: string; content: string}[];
+  historySummary?: string;
+  focus?: unknown;
+  region?: unknown;
+  mode?: unknown; // The resolved assistant mode; its instructions and tools change the answer
+  promptVersion?: string;
+}
+
+/** Key from the perceptual image hashes, the normalized question, a history (and summary) hash, the assistant mode, the prompt version and the model. */
+export async function chatResponseCacheKey(parts: ChatResponseCacheKeyParts, model: string): Promise<string> {
+  const [image, contextImage] = await Promise.all([
+    parts.photoDataUri ? perceptualImageHash(parts.photoDataUri) : null,
+    parts.contextPhotoDataUri ? perceptualImageHash(parts.contextPhotoDataUri) : null,
+  ]);
+  return sha256(JSON.stringify({
+    version: CACHE_KEY_VERSION,
+    model,
+    question: normalizeQuestion(parts.question),
+    image,
+    contextImage,
+    history: sha256(JSON.stringify([parts.historySummary ?? null, parts.history ?? []])),
+    focus: parts.focus ?? null,
+    region: parts.region ?? null,
+    mode: parts.mode ?? null,
+    promptVersion: parts.promptVersion ?? null,
+  }));
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileOverview An in-process LRU response cache. Entries are lost on restart and not shared
+ * between server instances.
+ */
+
+import type {ResponseCacheBackendFactory, ResponseCacheEntry} from './types';
+
+export const memoryResponseCache: ResponseCacheBackendFactory = {
+  id: 'memory',
+  create: (options) => {
+    // Map keeps insertion order; re-inserting on every read makes the first key the least recently used.
+    const entries = new Map<string, ResponseCacheEntry>();
+    return {
+      id: 'memory',
+      label: 'In-memory',
+      get: async (key) => {
+        const entry = entries.get(key);
+        if (!entry) return undefined;
+        entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return undefined;
+        entries.set(key, entry);
+        return entry;
+      },
+      set: async (key, entry) => {
+        entries.delete(key);
+        entries.set(key, entry);
+        while (entries.size > options.maxEntries) {
+          entries.delete(entries.keys().next().value!);
+        }
+      },
+    };
+  },
+};
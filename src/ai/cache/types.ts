@@ -0,0 +1,35 @@
+/**
+ * @fileOverview Shared types for the response cache backends.
+ */
+
+export type ResponseCacheBackendId = 'memory' | 'file';
+
+export interface ResponseCacheEntry {
+  value: unknown;
+  storedAt: number; // Epoch ms
+  expiresAt: number; // Epoch ms; the entry is ignored and removed after this
+}
+
+export interface ResponseCacheOptions {
+  /** How long an entry stays valid, in milliseconds. */
+  ttlMs: number;
+  /** Maximum number of entries; the least recently used (memory) or oldest (file) are evicted first. */
+  maxEntries: number;
+  /** Entries whose serialized value is larger than this are not stored. */
+  maxEntryBytes: number;
+  /** Directory of the `file` backend. */
+  dir: string;
+}
+
+export interface ResponseCacheBackend {
+  id: ResponseCacheBackendId;
+  label: string;
+  /** Resolves to undefined for unknown and expired keys. */
+  get: (key: string) => Promise<ResponseCacheEntry | undefined>;
+  set: (key: string, entry: ResponseCacheEntry) => Promise<void>;
+}
+
+export interface ResponseCacheBackendFactory {
+  id: ResponseCacheBackendId;
+  create: (options: ResponseCacheOptions) => ResponseCacheBackend;
+}
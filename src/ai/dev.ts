@@ -3,4 +3,6 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/contextual-chat-with-vision.ts';
+import '@/ai/flows/live-analysis.ts';
+import '@/ai/flows/summarize-conversation.ts';
 import '@/ai/tools'; // Import all tools
@@ -0,0 +1,80 @@
+/**
+ * @fileOverview Command line entry of the evaluation harness (see index.ts).
+ *
+ *   npm run eval -- <dataset.json> [--out eval/reports] [--label name] [--prompt-version v1] [--mode general]
+ *   npm run eval:compare -- <baseline.json> <candidate.json> [--out eval/reports]
+ *
+ * Set AI_PROVIDER=mock to check a dataset without spending model quota.
+ */
+
+import {config} from 'dotenv';
+config();
+
+import path from 'path';
+import {parseArgs} from 'util';
+
+const USAGE = `Usage:
+  eval run <dataset.json> [--out dir] [--label name] [--prompt-version version] [--mode id]
+  eval compare <baseline.json> <candidate.json> [--out dir]`;
+
+const DEFAULT_OUT_DIR = path.join('eval', 'reports');
+
+async function main(argv: string[]): Promise<void> {
+  const {values, positionals} = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: {type: 'string', default: DEFAULT_OUT_DIR},
+      label: {type: 'string'},
+      'prompt-version': {type: 'string'},
+      mode: {type: 'string'},
+    },
+  });
+  const [command, ...files] = positionals;
+
+  if (command === 'run' && files.length === 1) {
+    // Imported here so the flows and the model provider are set up after dotenv has run, and not at all for `compare`.
+    const {runEvaluation, writeReport} = await import('./index');
+    const report = await runEvaluation(files[0], {
+      label: values.label,
+      promptVersion: values['prompt-version'],
+      mode: values.mode,
+      onCaseDone: (result, index, total) => {
+        const outcome = result.status === 'ok' ? 'ok' : `error ${result.error?.code}`;
+        console.log(`[eval] ${index + 1}/${total} ${result.id}: ${outcome} in ${result.latencyMs} ms`);
+      },
+    });
+    const written = await writeReport(report, values.out);
+    const {summary} = report;
+    console.log(
+      `[eval] ${summary.cases} cases, ${summary.errors} errors. Count accuracy ${summary.countExactAccuracy ?? '-'}, ` +
+      `mAP@0.5 ${summary.map50 ?? '-'}, keywords ${summary.keywordScore ?? '-'}, Indonesian ${summary.languageCompliance ?? '-'}, ` +
+      `p95 latency ${summary.latency.p95Ms} ms.`
+    );
+    console.log(`[eval] Wrote ${written.json} and ${written.html}`);
+    return;
+  }
+
+  if (command === 'compare' && files.length === 2) {
+    const {compareReports} = await import('./compare');
+    const {readReport, writeComparison} = await import('./report');
+    const [baseline, candidate] = await Promise.all(files.map(readReport));
+    if (baseline.run.dataset !== candidate.run.dataset) {
+      console.warn(`[eval] Comparing runs of different datasets: ${baseline.run.dataset} and ${candidate.run.dataset}.`);
+    }
+    const comparison = compareReports(baseline, candidate);
+    const written = await writeComparison(comparison, values.out);
+    const regressed = comparison.cases.filter(change => change.change === 'regressed');
+    for (const change of regressed) console.log(`[eval] Regressed ${change.id}: ${change.reasons.join('; ')}`);
+    console.log(`[eval] ${regressed.length} regressed, ${comparison.cases.length - regressed.length} improved cases.`);
+    console.log(`[eval] Wrote ${written.json} and ${written.html}`);
+    return;
+  }
+
+  throw new Error(USAGE);
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview Compares two evaluation reports, e.g. two models or two prompt versions on the same dataset.
+ */
+
+import type {CaseChange, EvalCaseResult, EvalComparison, EvalReport, EvalSummary, MetricDelta} from './types';
+
+// Run-wide metrics compared between two reports, and whether a higher value is better.
+const SUMMARY_METRICS: {metric: string; value: (summary: EvalSummary) => number | null; higherIsBetter: boolean}[] = [
+  {metric: 'countExactAccuracy', value: summary => summary.countExactAccuracy, higherIsBetter: true},
+  {metric: 'countMeanAbsoluteError', value: summary => summary.countMeanAbsoluteError, higherIsBetter: false},
+  {metric: 'map50', value: summary => summary.map50, higherIsBetter: true},
+  {metric: 'map50to95', value: summary => summary.map50to95, higherIsBetter: true},
+  {metric: 'meanIoU', value: summary => summary.meanIoU, higherIsBetter: true},
+  {metric: 'keywordScore', value: summary => summary.keywordScore, higherIsBetter: true},
+  {metric: 'languageCompliance', value: summary => summary.languageCompliance, higherIsBetter: true},
+  {metric: 'errors', value: summary => summary.errors, higherIsBetter: false},
+  {metric: 'latencyP50Ms', value: summary => summary.latency.p50Ms, higherIsBetter: false},
+  {metric: 'latencyP95Ms', value: summary => summary.latency.p95Ms, higherIsBetter: false},
+  {metric: 'totalTokens', value: summary => summary.totalTokens, higherIsBetter: false},
+];
+
+function delta(metric: string, baseline: number | null, candidate: number | null, higherIsBetter: boolean): MetricDelta {
+  if (baseline === null || candidate === null) return {metric, baseline, candidate, delta: null, better: null};
+  const difference = candidate - baseline;
+  return {
+    metric,
+    baseline,
+    candidate,
+    delta: difference,
+    better: Math.abs(difference) < 1e-9 ? null : (difference > 0) === higherIsBetter,
+  };
+}
+
+/** What got better or worse in a case; latency is left out because it is too noisy per case. */
+function caseChanges(baseline: EvalCaseResult, candidate: EvalCaseResult): {regressed: string[]; improved: string[]} {
+  const regressed: string[] = [];
+  const improved: string[] = [];
+  const note = (worse: boolean | undefined, better: boolean | undefined, worseReason: string, betterReason = worseReason) => {
+    if (worse) regressed.push(worseReason);
+    else if (better) improved.push(betterReason);
+  };
+  note(
+    baseline.status === 'ok' && candidate.status === 'error',
+    baseline.status === 'error' && candidate.status === 'ok',
+    `error: ${candidate.error?.code}`,
+    `no longer fails with ${baseline.error?.code}`
+  );
+  note(baseline.countsExact && candidate.countsExact === false, baseline.countsExact === false && candidate.countsExact, 'count no longer exact', 'count now exact');
+  const matched = [baseline.boxes?.matched ?? 0, candidate.boxes?.matched ?? 0];
+  note(matched[1] < matched[0], matched[1] > matched[0], `matched boxes ${matched[0]} → ${matched[1]}`);
+  const keywordScores = [baseline.keywords?.score ?? 0, candidate.keywords?.score ?? 0];
+  note(
+    keywordScores[1] < keywordScores[0],
+    keywordScores[1] > keywordScores[0],
+    `keywords ${Math.round(keywordScores[0] * 100)}% → ${Math.round(keywordScores[1] * 100)}%`
+  );
+  note(
+    baseline.language?.indonesian && candidate.language?.indonesian === false,
+    baseline.language?.indonesian === false && candidate.language?.indonesian,
+    'answer not in Indonesian',
+    'answer now in Indonesian'
+  );
+  return {regressed, improved};
+}
+
+export function compareReports(baseline: EvalReport, candidate: EvalReport): EvalComparison {
+  const metrics = SUMMARY_METRICS.map(({metric, value, higherIsBetter}) =>
+    delta(metric, value(baseline.summary), value(candidate.summary), higherIsBetter)
+  );
+
+  const labels = [...new Set([...baseline.summary.classes, ...candidate.summary.classes].map(summary => summary.label))].sort();
+  const classes = labels.map(label => {
+    const accuracy = (report: EvalReport) => {
+      const summary = report.summary.classes.find(entry => entry.label === label);
+      return summary && summary.cases > 0 ? summary.countAccuracy : null;
+    };
+    return delta(label, accuracy(baseline), accuracy(candidate), true);
+  });
+
+  const baselineCases = new Map(baseline.cases.map(result => [result.id, result]));
+  const cases: CaseChange[] = [];
+  for (const result of candidate.cases) {
+    const previous = baselineCases.get(result.id);
+    if (!previous) continue;
+    // A case with any regression is listed as regressed, even if something else improved.
+    const {regressed, improved} = caseChanges(previous, result);
+    if (regressed.length > 0) cases.push({id: result.id, change: 'regressed', reasons: regressed});
+    else if (improved.length > 0) cases.push({id: result.id, change: 'improved', reasons: improved});
+  }
+
+  return {baseline: baseline.run, candidate: candidate.run, metrics, classes, cases};
+}
@@ -0,0 +1,40 @@
+/**
+ * @fileOverview Loads an evaluation dataset: a JSON file of cases whose images are paths relative
+ * to the file (or inline data URIs). See eval/datasets/demo/dataset.json for an example.
+ */
+
+import {promises as fs} from 'fs';
+import path from 'path';
+import {EvalDatasetSchema, type EvalDataset} from './types';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+export async function loadDataset(file: string): Promise<EvalDataset> {
+  const parsed = EvalDatasetSchema.safeParse(JSON.parse(await fs.readFile(file, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid dataset ${file}: ${issues}`);
+  }
+  const ids = new Set<string>();
+  for (const evalCase of parsed.data.cases) {
+    if (ids.has(evalCase.id)) throw new Error(`Invalid dataset ${file}: duplicate case id "${evalCase.id}".`);
+    ids.add(evalCase.id);
+  }
+  return parsed.data;
+}
+
+/** The case image as a data URI; paths are resolved against the dataset file's directory. */
+export async function loadCaseImage(datasetFile: string, image: string): Promise<string> {
+  if (image.startsWith('data:')) return image;
+  const imagePath = path.resolve(path.dirname(datasetFile), image);
+  const mimeType = IMAGE_MIME_TYPES[path.extname(imagePath).toLowerCase()];
+  if (!mimeType) throw new Error(`Unsupported image type: ${image}. Expected one of ${Object.keys(IMAGE_MIME_TYPES).join(', ')}.`);
+  const bytes = await fs.readFile(imagePath);
+  return `data:${mimeType};base64,${bytes.toString('base64')}`;
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileOverview Offline evaluation of `contextualChatWithVisionFlow` against a labeled dataset.
+ *
+ * Every case of the dataset is asked through the flow, one at a time and bypassing the response
+ * cache, with whichever provider AI_PROVIDER selects (`mock` runs the harness without a model). The
+ * answers are scored for object counts per class, bounding boxes (IoU and mAP), expected keywords,
+ * Indonesian language compliance and latency. Reports are written as JSON and HTML, and two JSON
+ * reports can be compared to spot regressions between models or prompt versions.
+ *
+ * - runEvaluation - Runs a dataset and returns its report.
+ * - compareReports - Metric deltas and per-case regressions between two reports (see compare.ts).
+ * - writeReport / writeComparison / readReport - Write the JSON and HTML files and read a JSON report
+ *   back (see report.ts).
+ *
+ * Run it with `npm run eval -- <dataset.json>` and `npm run eval:compare -- <a.json> <b.json>`.
+ */
+
+import {randomUUID} from 'crypto';
+import {contextualChatWithVisionFlow} from '@/ai/flows/contextual-chat-with-vision';
+import {toFlowError} from '@/ai/flow-errors';
+import {promptVersions, UnknownPromptVersionError} from '@/ai/prompt-registry';
+import {DEFAULT_MODEL_PROVIDER_ID} from '@/ai/providers';
+import {DEFAULT_ASSISTANT_MODE_ID, isBuiltInAssistantModeId} from '@/lib/assistant-modes';
+import {loadCaseImage, loadDataset} from './dataset';
+import {
+  createClassNormalizer,
+  detectIndonesian,
+  matchBoxes,
+  predictedBoxes,
+  scoreCounts,
+  scoreKeywords,
+  summarizeResults,
+} from './metrics';
+import {EVAL_REPORT_FORMAT, EVAL_REPORT_VERSION, type EvalCase, type EvalCaseResult, type EvalReport} from './types';
+
+export type * from './types';
+export {compareReports} from './compare';
+export {readReport, writeComparison, writeReport} from './report';
+
+export interface EvalRunOptions {
+  label?: string; // Name of the run in reports; defaults to the provider and prompt version
+  promptVersion?: string; // Prompt version every case is asked with; defaults to the current one
+  mode?: string; // Built-in assistant mode for cases that do not name one
+  onCaseDone?: (result: EvalCaseResult, index: number, total: number) => void;
+}
+
+async function runCase(
+  datasetFile: string,
+  evalCase: EvalCase,
+  options: EvalRunOptions,
+  normalize: (name: string) => string
+): Promise<EvalCaseResult> {
+  const mode = evalCase.mode ?? options.mode ?? DEFAULT_ASSISTANT_MODE_ID;
+  const base = {id: evalCase.id, question: evalCase.question, mode};
+  const {expected} = evalCase;
+  const expectedBoxes = expected.boxes?.map(({label, box}) => ({label: normalize(label), box}));
+
+  let image: string | undefined;
+  let output: Awaited<ReturnType<typeof contextualChatWithVisionFlow>>;
+  const startedAt = Date.now();
+  try {
+    if (!isBuiltInAssistantModeId(mode)) throw new Error(`Unknown assistant mode "${mode}".`);
+    image = evalCase.image ? await loadCaseImage(datasetFile, evalCase.image) : undefined;
+    output = await contextualChatWithVisionFlow({
+      photoDataUri: image,
+      question: evalCase.question,
+      mode: {id: mode},
+      promptVersion: options.promptVersion,
+      bypassCache: true,
+    });
+  } catch (error) {
+    output = {status: 'error', error: toFlowError(error)};
+  }
+  const latencyMs = Date.now() - startedAt;
+
+  if (output.status === 'error') {
+    // A failed case scores as a wrong answer for everything it expected.
+    const counts = expected.counts && scoreCounts(expected.counts, undefined, normalize);
+    return {
+      ...base,
+      status: 'error',
+      error: output.error,
+      latencyMs,
+      counts,
+      countsExact: counts && counts.every(count => count.expected === count.predicted),
+      boxes: expectedBoxes && {expected: expectedBoxes.length, predicted: 0, matched: 0, meanIoU: null},
+      keywords: expected.keywords && scoreKeywords('', expected.keywords),
+      expectedBoxes,
+      image,
+    };
+  }
+
+  const counts = expected.counts && scoreCounts(expected.counts, output.countedObjects, normalize);
+  const predicted = predictedBoxes(output.countedObjects, normalize);
+  const matchedIoUs = expectedBoxes && matchBoxes(expectedBoxes, predicted, 0.5);
+  return {
+    ...base,
+    status: 'ok',
+    answer: output.answer,
+    model: output.model,
+    promptVersion: output.promptVersion,
+    latencyMs,
+    usage: output.usage,
+    counts,
+    countsExact: counts && counts.every(count => count.expected === count.predicted),
+    boxes: expectedBoxes && matchedIoUs && {
+      expected: expectedBoxes.length,
+      predicted: predicted.length,
+      matched: matchedIoUs.length,
+      meanIoU: matchedIoUs.length > 0 ? matchedIoUs.reduce((sum, iou) => sum + iou, 0) / matchedIoUs.length : null,
+    },
+    keywords: expected.keywords && scoreKeywords(output.answer, expected.keywords),
+    language: detectIndonesian(output.answer),
+    predictedBoxes: predicted.length > 0 ? predicted : undefined,
+    expectedBoxes,
+    image,
+  };
+}
+
+export async function runEvaluation(datasetFile: string, options: EvalRunOptions = {}): Promise<EvalReport> {
+  const dataset = await loadDataset(datasetFile);
+  if (options.promptVersion) {
+    const versions = promptVersions('contextual-chat-with-vision');
+    if (!versions.includes(options.promptVersion)) {
+      throw new UnknownPromptVersionError('contextual-chat-with-vision', options.promptVersion, versions);
+    }
+  }
+  if (options.mode && !isBuiltInAssistantModeId(options.mode)) throw new Error(`Unknown assistant mode "${options.mode}".`);
+
+  const normalize = createClassNormalizer(dataset.classAliases);
+  const provider = (process.env.AI_PROVIDER || DEFAULT_MODEL_PROVIDER_ID).trim().toLowerCase();
+  const startedAt = new Date();
+  const cases: EvalCaseResult[] = [];
+  // Sequential on purpose: latency is part of the score, and parallel calls would skew it and hit rate limits.
+  for (const [index, evalCase] of dataset.cases.entries()) {
+    const result = await runCase(datasetFile, evalCase, options, normalize);
+    cases.push(result);
+    options.onCaseDone?.(result, index, dataset.cases.length);
+  }
+
+  return {
+    format: EVAL_REPORT_FORMAT,
+    version: EVAL_REPORT_VERSION,
+    run: {
+      id: randomUUID(),
+      label: options.label ?? [provider, options.promptVersion].filter(Boolean).join(' '),
+      dataset: dataset.name,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      provider,
+      models: [...new Set(cases.flatMap(result => (result.model ? [result.model] : [])))],
+      promptVersion: options.promptVersion,
+      mode: options.mode ?? DEFAULT_ASSISTANT_MODE_ID,
+    },
+    summary: summarizeResults(cases),
+    cases,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileOverview Scores of the offline evaluation harness.
+ *
+ * - boxIoU / matchBoxes - Intersection over union, and greedy one-to-one matching of predicted to
+ *   ground-truth boxes, best overlap first.
+ * - createClassNormalizer - Maps the model's object names onto the dataset's classes.
+ * - scoreCounts, scoreKeywords, detectIndonesian - Per-case scores.
+ * - summarizeResults - Run-wide scores: count accuracy per class, mAP, keyword score, language
+ *   compliance and latency percentiles.
+ *
+ * The model reports no confidence per box, so the precision/recall curve of a class has a single
+ * point and its average precision is precision × recall at that point.
+ */
+
+import type {BoundingBox, CountedObject} from '@/types';
+import type {
+  ClassCountResult,
+  ClassSummary,
+  EvalCaseResult,
+  EvalSummary,
+  KeywordResult,
+  LanguageResult,
+  LatencySummary,
+} from './types';
+
+export interface LabeledBox {
+  label: string;
+  box: BoundingBox;
+}
+
+export const IOU_THRESHOLDS = [0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9, 0.95];
+
+// Common function words; an answer counts as Indonesian when it uses more of these than English ones.
+const INDONESIAN_WORDS = new Set([
+  'yang', 'dan', 'di', 'ke', 'dari', 'ini', 'itu', 'dengan', 'untuk', 'adalah', 'ada', 'tidak', 'saya',
+  'anda', 'akan', 'pada', 'juga', 'atau', 'dalam', 'bisa', 'dapat', 'sebuah', 'seorang', 'karena', 'tersebut',
+  'terlihat', 'melihat', 'gambar', 'sudah', 'belum', 'telah', 'lebih', 'sangat', 'tetapi', 'namun', 'jika',
+]);
+const ENGLISH_WORDS = new Set([
+  'the', 'and', 'of', 'to', 'is', 'are', 'this', 'that', 'with', 'for', 'in', 'on', 'it', 'there', 'i',
+  'you', 'not', 'be', 'can', 'will', 'from', 'has', 'have', 'was', 'were', 'an', 'see', 'image', 'but',
+  'if', 'very', 'also', 'or', 'which', 'they', 'these', 'those',
+]);
+
+function normalizeText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+export function boxIoU(a: BoundingBox, b: BoundingBox): number {
+  const overlapWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const overlapHeight = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (overlapWidth <= 0 || overlapHeight <= 0) return 0;
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/** Pairs boxes of the same label, best overlap first, each box at most once; returns the IoU of every pair. */
+export function matchBoxes(expected: LabeledBox[], predicted: LabeledBox[], threshold: number): number[] {
+  const candidates: {expected: number; predicted: number; iou: number}[] = [];
+  expected.forEach((truth, i) => {
+    predicted.forEach((prediction, j) => {
+      if (truth.label !== prediction.label) return;
+      const iou = boxIoU(truth.box, prediction.box);
+      if (iou >= threshold) candidates.push({expected: i, predicted: j, iou});
+    });
+  });
+  candidates.sort((a, b) => b.iou - a.iou);
+  const usedExpected = new Set<number>();
+  const usedPredicted = new Set<number>();
+  const matches: number[] = [];
+  for (const candidate of candidates) {
+    if (usedExpected.has(candidate.expected) || usedPredicted.has(candidate.predicted)) continue;
+    usedExpected.add(candidate.expected);
+    usedPredicted.add(candidate.predicted);
+    matches.push(candidate.iou);
+  }
+  return matches;
+}
+
+/**
+ * Returns a function mapping an object name to its dataset class: the class itself, one of its
+ * aliases, or a reduplicated Indonesian plural ("apel-apel") all map to the class; anything else is
+ * returned normalized.
+ */
+export function createClassNormalizer(classAliases: Record<string, string[]> = {}): (name: string) => string {
+  const lookup = new Map<string, string>();
+  for (const [label, aliases] of Object.entries(classAliases)) {
+    const canonical = normalizeText(label);
+    lookup.set(canonical, canonical);
+    for (const alias of aliases) lookup.set(normalizeText(alias), canonical);
+  }
+  return (name: string) => {
+    const normalized = normalizeText(name);
+    const singular = normalized.match(/^(.+)-\1$/)?.[1] ?? normalized;
+    return lookup.get(normalized) ?? lookup.get(singular) ?? singular;
+  };
+}
+
+export function predictedBoxes(countedObjects: CountedObject[] | undefined, normalize: (name: string) => string): LabeledBox[] {
+  return (countedObjects ?? []).flatMap(object =>
+    object.instances.map(instance => ({label: normalize(object.name), box: instance.boundingBox}))
+  );
+}
+
+/** Expected against predicted count for every expected class; classes the dataset does not expect are not scored. */
+export function scoreCounts(
+  expected: Record<string, number>,
+  countedObjects: CountedObject[] | undefined,
+  normalize: (name: string) => string
+): ClassCountResult[] {
+  const predicted = new Map<string, number>();
+  for (const object of countedObjects ?? []) {
+    const label = normalize(object.name);
+    predicted.set(label, (predicted.get(label) ?? 0) + object.count);
+  }
+  return Object.entries(expected).map(([label, count]) => ({
+    label: normalize(label),
+    expected: count,
+    predicted: predicted.get(normalize(label)) ?? 0,
+  }));
+}
+
+/** Each keyword group is found when the answer contains any of its alternatives. */
+export function scoreKeywords(answer: string, keywords: (string | string[])[]): KeywordResult {
+  const text = normalizeText(answer);
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const group of keywords) {
+    const alternatives = Array.isArray(group) ? group : [group];
+    const found = alternatives.find(keyword => text.includes(normalizeText(keyword)));
+    if (found) matched.push(found);
+    else missing.push(alternatives.join(' / '));
+  }
+  return {matched, missing, score: keywords.length > 0 ? matched.length / keywords.length : 1};
+}
+
+export function detectIndonesian(answer: string): LanguageResult {
+  const words = normalizeText(answer).match(/[a-z]+/g) ?? [];
+  const indonesianWords = words.filter(word => INDONESIAN_WORDS.has(word)).length;
+  const englishWords = words.filter(word => ENGLISH_WORDS.has(word)).length;
+  return {indonesian: indonesianWords > 0 && indonesianWords >= englishWords, indonesianWords, englishWords};
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+export function summarizeLatency(latencies: number[]): LatencySummary {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    meanMs: Math.round(mean(sorted) ?? 0),
+    p50Ms: percentile(sorted, 0.5),
+    p95Ms: percentile(sorted, 0.95),
+    maxMs: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+/** Average precision of every class with ground-truth boxes, at one IoU threshold. */
+function averagePrecisionByClass(cases: EvalCaseResult[], threshold: number): Map<string, number> {
+  const totals = new Map<string, {truePositives: number; expected: number; predicted: number}>();
+  for (const result of cases) {
+    if (!result.expectedBoxes) continue;
+    const predicted = result.predictedBoxes ?? [];
+    const labels = new Set(result.expectedBoxes.map(box => box.label));
+    for (const label of labels) {
+      const expectedOfClass = result.expectedBoxes.filter(box => box.label === label);
+      const predictedOfClass = predicted.filter(box => box.label === label);
+      const total = totals.get(label) ?? {truePositives: 0, expected: 0, predicted: 0};
+      total.truePositives += matchBoxes(expectedOfClass, predictedOfClass, threshold).length;
+      total.expected += expectedOfClass.length;
+      total.predicted += predictedOfClass.length;
+      totals.set(label, total);
+    }
+  }
+  const precisions = new Map<string, number>();
+  for (const [label, total] of totals) {
+    const precision = total.predicted > 0 ? total.truePositives / total.predicted : 0;
+    const recall = total.expected > 0 ? total.truePositives / total.expected : 0;
+    precisions.set(label, precision * recall);
+  }
+  return precisions;
+}
+
+export function summarizeResults(cases: EvalCaseResult[]): EvalSummary {
+  const countCases = cases.filter(result => result.counts);
+  const boxCases = cases.filter(result => result.expectedBoxes);
+  const answered = cases.filter(result => result.status === 'ok');
+
+  const countsByClass = new Map<string, ClassCountResult[]>();
+  for (const result of countCases) {
+    for (const count of result.counts ?? []) countsByClass.set(count.label, [...(countsByClass.get(count.label) ?? []), count]);
+  }
+  const ap50 = averagePrecisionByClass(cases, 0.5);
+  const labels = [...new Set([...countsByClass.keys(), ...ap50.keys()])].sort();
+  const classes: ClassSummary[] = labels.map(label => {
+    const counts = countsByClass.get(label) ?? [];
+    return {
+      label,
+      cases: counts.length,
+      countAccuracy: mean(counts.map(count => (count.expected === count.predicted ? 1 : 0))) ?? 0,
+      countMeanAbsoluteError: mean(counts.map(count => Math.abs(count.expected - count.predicted))) ?? 0,
+      ap50: ap50.get(label) ?? null,
+    };
+  });
+
+  const mapAt = (threshold: number) => mean([...averagePrecisionByClass(cases, threshold).values()]);
+  const mapByThreshold = IOU_THRESHOLDS.map(mapAt);
+  const matchedIoUs = boxCases.flatMap(result =>
+    result.expectedBoxes ? matchBoxes(result.expectedBoxes, result.predictedBoxes ?? [], 0.5) : []
+  );
+  const allCounts = countCases.flatMap(result => result.counts ?? []);
+
+  return {
+    cases: cases.length,
+    errors: cases.length - answered.length,
+    countCases: countCases.length,
+    countExactAccuracy: mean(countCases.map(result => (result.countsExact ? 1 : 0))),
+    countMeanAbsoluteError: mean(allCounts.map(count => Math.abs(count.expected - count.predicted))),
+    classes,
+    boxCases: boxCases.length,
+    map50: mapByThreshold[0],
+    map50to95: boxCases.length > 0 ? mean(mapByThreshold.map(value => value ?? 0)) : null,
+    meanIoU: mean(matchedIoUs),
+    keywordScore: mean(cases.filter(result => result.keywords).map(result => result.keywords!.score)),
+    languageCompliance: mean(answered.map(result => (result.language?.indonesian ? 1 : 0))),
+    latency: summarizeLatency(answered.map(result => result.latencyMs)),
+    totalTokens: cases.reduce((sum, result) => sum + (result.usage?.totalTokens ?? 0), 0),
+  };
+}
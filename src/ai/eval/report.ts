@@ -0,0 +1,209 @@
+/**
+ * @fileOverview Writes evaluation reports: JSON for `compareReports` and other tools, and a
+ * self-contained HTML page in the style of the conversation export, where each case shows its image
+ * with the ground-truth boxes (dashed) and the predicted boxes.
+ */
+
+import {promises as fs} from 'fs';
+import path from 'path';
+import {escapeHtml} from '@/lib/conversation-export';
+import {highlightColorForIndex} from '@/lib/highlight-colors';
+import {EVAL_REPORT_FORMAT, EVAL_REPORT_VERSION, type EvalCaseResult, type EvalComparison, type EvalReport, type MetricDelta} from './types';
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 64rem; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; font-size: 0.85rem; }
+th, td { border: 1px solid #e2e8f0; padding: 0.25rem 0.5rem; text-align: left; }
+th { background: #f1f5f9; }
+.case { border: 1px solid #e2e8f0; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+.case.error { border-color: #f87171; }
+.content { white-space: pre-wrap; margin: 0.25rem 0; }
+.chip { font-size: 0.8rem; color: #475569; margin: 0.25rem 0; }
+.frame { position: relative; display: inline-block; max-width: 24rem; }
+.frame img { display: block; max-width: 100%; border-radius: 0.375rem; }
+.frame svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+.better { color: #059669; }
+.worse { color: #dc2626; }
+`;
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+function formatValue(value: number | null | undefined, unit: 'ratio' | 'number' | 'ms' = 'number'): string {
+  if (value === null || value === undefined) return '–';
+  if (unit === 'ratio') return `${(value * 100).toFixed(1)}%`;
+  if (unit === 'ms') return `${Math.round(value)} ms`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+// Ground truth dashed and predictions solid, colored by class, over the image in normalized coordinates.
+function renderBoxes(result: EvalCaseResult): string {
+  if (!result.image) return '';
+  const labels = [...new Set([...(result.expectedBoxes ?? []), ...(result.predictedBoxes ?? [])].map(box => box.label))];
+  const rect = (entry: {label: string; box: {x: number; y: number; width: number; height: number}}, dashed: boolean) => {
+    const {x, y, width, height} = entry.box;
+    const color = highlightColorForIndex(labels.indexOf(entry.label));
+    const dash = dashed ? ' stroke-dasharray="6 4"' : '';
+    return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" stroke="${color}" stroke-width="3"${dash} vector-effect="non-scaling-stroke"><title>${escapeHtml(entry.label)}</title></rect>`;
+  };
+  const shapes = [
+    ...(result.expectedBoxes ?? []).map(entry => rect(entry, true)),
+    ...(result.predictedBoxes ?? []).map(entry => rect(entry, false)),
+  ];
+  return `<div class="frame"><img src="${escapeHtml(result.image)}" alt="Gambar kasus"><svg viewBox="0 0 1 1" preserveAspectRatio="none">${shapes.join('')}</svg></div>`;
+}
+
+function renderCase(result: EvalCaseResult): string {
+  const parts = [`<h3>${escapeHtml(result.id)}</h3>`, `<p class="chip">Pertanyaan: ${escapeHtml(result.question)}</p>`];
+  if (result.status === 'error') {
+    parts.push(`<p class="content worse">Galat ${escapeHtml(result.error?.code ?? '')}: ${escapeHtml(result.error?.message ?? '')}</p>`);
+  } else {
+    parts.push(`<p class="content">${escapeHtml(result.answer ?? '')}</p>`);
+  }
+  if (result.counts) {
+    const counts = result.counts.map(count => `${count.label}: ${count.predicted}/${count.expected}`).join(', ');
+    parts.push(`<p class="chip ${result.countsExact ? 'better' : 'worse'}">Jumlah (prediksi/harapan): ${escapeHtml(counts)}</p>`);
+  }
+  if (result.boxes) {
+    parts.push(`<p class="chip">Kotak cocok (IoU ≥ 0,5): ${result.boxes.matched}/${result.boxes.expected} · prediksi ${result.boxes.predicted} · rata-rata IoU ${formatValue(result.boxes.meanIoU)}</p>`);
+  }
+  if (result.keywords) {
+    const missing = result.keywords.missing.length > 0 ? ` · tidak ada: ${result.keywords.missing.join(', ')}` : '';
+    parts.push(`<p class="chip">Kata kunci: ${formatValue(result.keywords.score, 'ratio')}${escapeHtml(missing)}</p>`);
+  }
+  if (result.language) {
+    parts.push(`<p class="chip ${result.language.indonesian ? '' : 'worse'}">Bahasa Indonesia: ${result.language.indonesian ? 'ya' : 'tidak'}</p>`);
+  }
+  const details = [`${formatValue(result.latencyMs, 'ms')}`, result.model, result.promptVersion && `prompt ${result.promptVersion}`, `mode ${result.mode}`];
+  parts.push(`<p class="chip">${escapeHtml(details.filter(Boolean).join(' · '))}</p>`);
+  parts.push(renderBoxes(result));
+  return `<section class="case${result.status === 'error' ? ' error' : ''}">${parts.join('\n')}</section>`;
+}
+
+export function renderReportHtml(report: EvalReport): string {
+  const {run, summary} = report;
+  const runInfo = [
+    `Dataset ${run.dataset}`,
+    `penyedia ${run.provider}`,
+    run.models.length > 0 && `model ${run.models.join(', ')}`,
+    run.promptVersion && `prompt ${run.promptVersion}`,
+    `mode ${run.mode}`,
+    new Date(run.startedAt).toLocaleString('id-ID'),
+  ];
+  const summaryRows = [
+    ['Kasus', `${summary.cases} (${summary.errors} galat)`],
+    ['Akurasi jumlah (semua kelas tepat)', `${formatValue(summary.countExactAccuracy, 'ratio')} dari ${summary.countCases} kasus`],
+    ['MAE jumlah', formatValue(summary.countMeanAbsoluteError)],
+    ['mAP@0,5', formatValue(summary.map50)],
+    ['mAP@[0,5:0,95]', formatValue(summary.map50to95)],
+    ['Rata-rata IoU kotak cocok', formatValue(summary.meanIoU)],
+    ['Skor kata kunci', formatValue(summary.keywordScore, 'ratio')],
+    ['Jawaban berbahasa Indonesia', formatValue(summary.languageCompliance, 'ratio')],
+    ['Latensi rata-rata / p50 / p95 / maks', [summary.latency.meanMs, summary.latency.p50Ms, summary.latency.p95Ms, summary.latency.maxMs].map(ms => formatValue(ms, 'ms')).join(' / ')],
+    ['Total token', String(summary.totalTokens)],
+  ].map(([name, value]) => [escapeHtml(name), escapeHtml(value)]);
+  const classRows = summary.classes.map(entry => [
+    escapeHtml(entry.label),
+    String(entry.cases),
+    entry.cases > 0 ? formatValue(entry.countAccuracy, 'ratio') : '–',
+    entry.cases > 0 ? formatValue(entry.countMeanAbsoluteError) : '–',
+    formatValue(entry.ap50),
+  ]);
+  const body = [
+    `<p class="chip">${escapeHtml(runInfo.filter(Boolean).join(' · '))}</p>`,
+    '<h2>Ringkasan</h2>',
+    table(['Metrik', 'Nilai'], summaryRows),
+    '<h2>Per kelas</h2>',
+    classRows.length > 0 ? table(['Kelas', 'Kasus', 'Akurasi jumlah', 'MAE', 'AP@0,5'], classRows) : '<p class="chip">Tidak ada kelas yang dinilai.</p>',
+    '<h2>Kasus</h2>',
+    '<p class="chip">Garis putus-putus: kotak yang diharapkan. Garis penuh: kotak prediksi.</p>',
+    ...report.cases.map(renderCase),
+  ];
+  return page(`Evaluasi: ${run.label}`, body.join('\n'));
+}
+
+function deltaRows(deltas: MetricDelta[]): string[][] {
+  return deltas.map(entry => {
+    const className = entry.better === null ? '' : entry.better ? 'better' : 'worse';
+    const sign = entry.delta !== null && entry.delta > 0 ? '+' : '';
+    return [
+      escapeHtml(entry.metric),
+      formatValue(entry.baseline),
+      formatValue(entry.candidate),
+      `<span class="${className}">${entry.delta === null ? '–' : sign + formatValue(entry.delta)}</span>`,
+    ];
+  });
+}
+
+export function renderComparisonHtml(comparison: EvalComparison): string {
+  const {baseline, candidate} = comparison;
+  const caseRows = comparison.cases.map(change => [
+    escapeHtml(change.id),
+    `<span class="${change.change === 'regressed' ? 'worse' : 'better'}">${change.change === 'regressed' ? 'memburuk' : 'membaik'}</span>`,
+    escapeHtml(change.reasons.join('; ')),
+  ]);
+  const body = [
+    `<p class="chip">Dasar: ${escapeHtml(baseline.label)} (${escapeHtml(baseline.startedAt)}) · Kandidat: ${escapeHtml(candidate.label)} (${escapeHtml(candidate.startedAt)})</p>`,
+    baseline.dataset !== candidate.dataset
+      ? `<p class="chip worse">Dataset berbeda: ${escapeHtml(baseline.dataset)} dan ${escapeHtml(candidate.dataset)}.</p>`
+      : '',
+    '<h2>Metrik</h2>',
+    table(['Metrik', 'Dasar', 'Kandidat', 'Selisih'], deltaRows(comparison.metrics)),
+    '<h2>Akurasi jumlah per kelas</h2>',
+    table(['Kelas', 'Dasar', 'Kandidat', 'Selisih'], deltaRows(comparison.classes)),
+    '<h2>Perubahan per kasus</h2>',
+    caseRows.length > 0 ? table(['Kasus', 'Perubahan', 'Alasan'], caseRows) : '<p class="chip">Tidak ada kasus yang berubah.</p>',
+  ];
+  return page(`Perbandingan: ${baseline.label} → ${candidate.label}`, body.join('\n'));
+}
+
+function fileStem(label: string, startedAt: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'run';
+  return `${startedAt.replace(/[:.]/g, '-')}-${slug}`;
+}
+
+/** Writes `<stem>.json` and `<stem>.html` to `outDir`; the JSON leaves out the case images. */
+export async function writeReport(report: EvalReport, outDir: string): Promise<{json: string; html: string}> {
+  await fs.mkdir(outDir, {recursive: true});
+  const stem = path.join(outDir, fileStem(report.run.label, report.run.startedAt));
+  const json = {...report, cases: report.cases.map(({image, ...result}) => result)};
+  await fs.writeFile(`${stem}.json`, JSON.stringify(json, null, 2));
+  await fs.writeFile(`${stem}.html`, renderReportHtml(report));
+  return {json: `${stem}.json`, html: `${stem}.html`};
+}
+
+export async function writeComparison(comparison: EvalComparison, outDir: string): Promise<{json: string; html: string}> {
+  await fs.mkdir(outDir, {recursive: true});
+  const stem = path.join(outDir, `compare-${fileStem(comparison.candidate.label, comparison.candidate.startedAt)}`);
+  await fs.writeFile(`${stem}.json`, JSON.stringify(comparison, null, 2));
+  await fs.writeFile(`${stem}.html`, renderComparisonHtml(comparison));
+  return {json: `${stem}.json`, html: `${stem}.html`};
+}
+
+export async function readReport(file: string): Promise<EvalReport> {
+  const report = JSON.parse(await fs.readFile(file, 'utf8')) as Partial<EvalReport>;
+  if (report.format !== EVAL_REPORT_FORMAT || report.version !== EVAL_REPORT_VERSION) {
+    throw new Error(`${file} is not a version ${EVAL_REPORT_VERSION} evaluation report.`);
+  }
+  return report as EvalReport;
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileOverview Dataset and report types of the offline evaluation harness (see index.ts).
+ */
+
+import {z} from 'genkit';
+import type {BoundingBox, FlowErrorCode, MessageUsage} from '@/types';
+
+export const EVAL_REPORT_FORMAT = 'visionai-eval';
+export const EVAL_REPORT_VERSION = 1;
+
+const NormalizedBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+const EvalCaseSchema = z.object({
+  id: z.string().min(1),
+  image: z.string().optional().describe('Path relative to the dataset file, or a data URI. Omit for text-only questions.'),
+  question: z.string().min(1),
+  mode: z.string().optional().describe('Built-in assistant mode id; defaults to the run\'s mode.'),
+  expected: z.object({
+    counts: z.record(z.number().int().min(0)).optional().describe('Expected count per class, e.g. {"apel": 2}.'),
+    boxes: z.array(z.object({label: z.string(), box: NormalizedBoxSchema})).optional().describe('Ground-truth boxes, normalized to the image.'),
+    keywords: z.array(z.union([z.string(), z.array(z.string()).min(1)])).optional()
+      .describe('Words the answer must contain; an array lists alternatives, any of which counts.'),
+  }).default({}),
+});
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+export const EvalDatasetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  classAliases: z.record(z.array(z.string())).optional()
+    .describe('Other names the model may use for a class, e.g. {"apel": ["apple", "apel merah"]}.'),
+  cases: z.array(EvalCaseSchema).min(1),
+});
+export type EvalDataset = z.infer<typeof EvalDatasetSchema>;
+
+export interface ClassCountResult {
+  label: string;
+  expected: number;
+  predicted: number;
+}
+
+export interface BoxMatchResult {
+  expected: number;
+  predicted: number;
+  matched: number; // At IoU 0.5
+  meanIoU: number | null; // Of the matched pairs; null when nothing matched
+}
+
+export interface KeywordResult {
+  matched: string[];
+  missing: string[];
+  score: number; // Share of keyword groups found, 0 to 1
+}
+
+export interface LanguageResult {
+  indonesian: boolean;
+  indonesianWords: number;
+  englishWords: number;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  mode: string;
+  status: 'ok' | 'error';
+  error?: {code: FlowErrorCode; message: string};
+  answer?: string;
+  model?: string;
+  promptVersion?: string;
+  latencyMs: number; // Wall time of the flow call
+  usage?: MessageUsage;
+  counts?: ClassCountResult[]; // Only for cases with expected counts
+  countsExact?: boolean;
+  boxes?: BoxMatchResult;
+  keywords?: KeywordResult;
+  language?: LanguageResult;
+  predictedBoxes?: {label: string; box: BoundingBox}[]; // For the HTML report
+  expectedBoxes?: {label: string; box: BoundingBox}[];
+  image?: string; // Data URI shown in the HTML report; left out of the JSON report
+}
+
+export interface ClassSummary {
+  label: string;
+  cases: number;
+  countAccuracy: number; // Share of cases whose count was exact
+  countMeanAbsoluteError: number;
+  ap50: number | null; // Null when the class has no ground-truth boxes
+}
+
+export interface LatencySummary {
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface EvalSummary {
+  cases: number;
+  errors: number;
+  countCases: number;
+  countExactAccuracy: number | null; // Share of count cases with every class exact
+  countMeanAbsoluteError: number | null;
+  classes: ClassSummary[];
+  boxCases: number;
+  map50: number | null;
+  map50to95: number | null;
+  meanIoU: number | null;
+  keywordScore: number | null;
+  languageCompliance: number | null; // Share of answers detected as Indonesian
+  latency: LatencySummary;
+  totalTokens: number;
+}
+
+export interface EvalRunInfo {
+  id: string;
+  label: string;
+  dataset: string;
+  startedAt: string; // ISO timestamp
+  finishedAt: string;
+  provider: string;
+  models: string[]; // Models that answered
+  promptVersion?: string; // Requested version; unset means the default
+  mode: string;
+}
+
+export interface EvalReport {
+  format: typeof EVAL_REPORT_FORMAT;
+  version: typeof EVAL_REPORT_VERSION;
+  run: EvalRunInfo;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+}
+
+export interface MetricDelta {
+  metric: string;
+  baseline: number | null;
+  candidate: number | null;
+  delta: number | null;
+  better: boolean | null; // Null when unchanged or not comparable
+}
+
+export interface CaseChange {
+  id: string;
+  change: 'regressed' | 'improved';
+  reasons: string[];
+}
+
+export interface EvalComparison {
+  baseline: EvalRunInfo;
+  candidate: EvalRunInfo;
+  metrics: MetricDelta[];
+  classes: MetricDelta[]; // Count accuracy per class
+  cases: CaseChange[];
+}
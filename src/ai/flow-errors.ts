@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Structured errors that the AI flows return instead of error text in `answer`.
+ *
+ * - FlowErrorSchema - Zod schema for the `error` of a failed flow result.
+ * - FlowError - The TypeScript type for FlowErrorSchema.
+ * - toFlowError - Maps an exception from a model call to a FlowError.
+ * - estimateDataUriBytes - Decoded size of a base64 data URI, for the image size check.
+ *
+ * The UI shows its own localized text per code (see src/lib/flow-error-messages.ts); `message`
+ * is technical detail for logs and API clients.
+ */
+
+import {GenerationBlockedError, z} from 'genkit';
+import type {FlowErrorCode} from '@/types';
+import {ModelUnavailableError} from '@/ai/model-fallback';
+
+const FLOW_ERROR_CODES = [
+  'RATE_LIMITED',
+  'MODEL_UNAVAILABLE',
+  'MODEL_EMPTY_OUTPUT',
+  'IMAGE_TOO_LARGE',
+  'SAFETY_BLOCKED',
+  'TOOL_FAILED',
+  'INTERNAL',
+] as const satisfies readonly FlowErrorCode[];
+
+export const FlowErrorSchema = z.object({
+  code: z.enum(FLOW_ERROR_CODES).describe('What went wrong.'),
+  message: z.string().describe('Technical detail, not meant to be shown to end users.'),
+  retryAfterMs: z.number().optional().describe('How long to wait before retrying, when known (RATE_LIMITED, MODEL_UNAVAILABLE).'),
+  tool: z.string().optional().describe('The tool that failed (TOOL_FAILED).'),
+});
+export type FlowError = z.infer<typeof FlowErrorSchema>;
+
+const IMAGE_TOO_LARGE_PATTERN = /payload size exceeds|request entity too large|\b413\b|image.*too large|too large.*image/i;
+const SAFETY_PATTERN = /\bSAFETY\b|blocked due to|prohibited content/i;
+
+export function toFlowError(error: unknown): FlowError {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ModelUnavailableError) {
+    return {code: error.kind === 'quota' ? 'RATE_LIMITED' : 'MODEL_UNAVAILABLE', message, retryAfterMs: error.retryAfterMs};
+  }
+  if (error instanceof GenerationBlockedError || SAFETY_PATTERN.test(message)) return {code: 'SAFETY_BLOCKED', message};
+  const status = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+  if (status === 413 || IMAGE_TOO_LARGE_PATTERN.test(message)) return {code: 'IMAGE_TOO_LARGE', message};
+  return {code: 'INTERNAL', message};
+}
+
+export function estimateDataUriBytes(dataUri: string | undefined): number {
+  if (!dataUri) return 0;
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4);
+}
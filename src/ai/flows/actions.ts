@@ -0,0 +1,52 @@
+// src/ai/flows/actions.ts
+'use server';
+/**
+ * @fileOverview Server actions exposing the AI flows to client components.
+ *
+ * - contextualChatWithVision - A function that handles the chat process (non-streaming).
+ * - liveAnalysis - A function that analyzes one live-mode frame against a standing question.
+ * - summarizeConversation - A function that folds older chat turns into a running summary.
+ *
+ * Server actions can be called by anyone who can reach the app, so each is rate-limited per client
+ * like the chat endpoint (see src/lib/api/rate-limit.ts).
+ */
+
+import {headers} from 'next/headers';
+import {enforceRateLimit} from '@/lib/api/rate-limit';
+
+import {
+  contextualChatWithVisionFlow,
+  type ContextualChatWithVisionInput,
+  type ContextualChatWithVisionOutput,
+} from './contextual-chat-with-vision';
+import {
+  liveAnalysisFlow,
+  type LiveAnalysisInput,
+  type LiveAnalysisOutput,
+} from './live-analysis';
+import {
+  summarizeConversationFlow,
+  type SummarizeConversationInput,
+  type SummarizeConversationOutput,
+} from './summarize-conversation';
+
+export async function contextualChatWithVision(
+  input: ContextualChatWithVisionInput
+): Promise<ContextualChatWithVisionOutput> {
+  enforceRateLimit('chat', await headers());
+  return contextualChatWithVisionFlow(input);
+}
+
+export async function liveAnalysis(
+  input: LiveAnalysisInput
+): Promise<LiveAnalysisOutput> {
+  enforceRateLimit('live', await headers());
+  return liveAnalysisFlow(input);
+}
+
+export async function summarizeConversation(
+  input: SummarizeConversationInput
+): Promise<SummarizeConversationOutput> {
+  enforceRateLimit('summary', await headers());
+  return summarizeConversationFlow(input);
+}
@@ -1,25 +1,66 @@
 
 // src/ai/flows/contextual-chat-with-vision.ts
-'use server';
 /**
  * @fileOverview A contextual chat AI agent that can interact with camera feed,
  * maintain conversation history, search the internet, and count objects in images.
  *
- * - contextualChatWithVision - A function that handles the chat process.
- * - ContextualChatWithVisionInput - The input type for the contextualChatWithVision function.
- * - ContextualChatWithVisionOutput - The return type for the contextualChatWithVision function.
+ * - contextualChatWithVisionFlow - The flow that handles the chat process. Streams partial answers when invoked via `streamFlow`.
+ *   Retries and falls back to other models on quota or transient errors; `model` in the output names the model that answered.
+ *   Answers are cached (see src/ai/cache); `cache` in the output tells whether this one was served from the cache.
+ *   `usage` reports tokens, tool calls, latency and estimated cost (see src/ai/usage.ts).
+ *   `history` is trimmed, oldest first, to AI_HISTORY_TOKEN_BUDGET estimated tokens (default 8000);
+ *   ChatPanel keeps it well below that by summarizing older turns (see src/lib/chat-context.ts).
+ *   `mode` selects the assistant persona, its tools and whether objects are counted (see src/lib/assistant-modes.ts);
+ *   built-in modes are looked up by id, custom modes carry their own instructions. The output names the mode that answered.
+ *   The prompt template is prompts/contextual-chat-with-vision.<version>.prompt (see src/ai/prompt-registry.ts);
+ *   `promptVersion` selects a version for A/B comparisons, and the output names the version that answered.
+ * - ContextualChatWithVisionInputSchema / ContextualChatWithVisionOutputSchema - Zod schemas, also used to validate the REST API.
+ * - ContextualChatWithVisionInput - The input type for the contextualChatWithVision flow.
+ * - ContextualChatWithVisionOutput - The return type: `{ status: 'ok', answer, ... }` or `{ status: 'error', error }` (see src/ai/flow-errors.ts).
+ * - ContextualChatWithVisionSuccess - The `ok` variant of ContextualChatWithVisionOutput.
+ * - ContextualChatWithVisionChunk - The type of the streamed chunks.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, modelChain} from '@/ai/genkit';
 import {z} from 'genkit';
-import { searchInternetTool } from '@/ai/tools';
+import { searchInternetTool, type SearchInternetOutput } from '@/ai/tools';
+import { runWithModelFallback } from '@/ai/model-fallback';
+import { chatResponseCacheKey, resolveResponseCache } from '@/ai/cache';
+import { createUsageRecorder, UsageSchema } from '@/ai/usage';
+import { abortMiddleware, abortSignalFromContext, FlowAbortedError, throwIfAborted } from '@/ai/abort';
+import { estimateDataUriBytes, FlowErrorSchema, toFlowError, type FlowError } from '@/ai/flow-errors';
+import { estimateTokens, trimHistoryToBudget } from '@/lib/chat-context';
+import { resolveAssistantMode } from '@/lib/assistant-modes';
+import { promptVersions, resolvePrompt } from '@/ai/prompt-registry';
+import type { AssistantMode, AssistantToolName } from '@/types';
 
-const ChatHistoryItemSchema = z.object({
+export const ChatHistoryItemSchema = z.object({
   role: z.enum(['user', 'assistant']),
   content: z.string(),
 });
 
-const ContextualChatWithVisionInputSchema = z.object({
+// Schema for bounding boxes and counted objects
+export const BoundingBoxSchema = z.object({
+  x: z.number().min(0).max(1).describe('Normalized top-left x-coordinate of the bounding box (0.0 to 1.0).'),
+  y: z.number().min(0).max(1).describe('Normalized top-left y-coordinate of the bounding box (0.0 to 1.0).'),
+  width: z.number().min(0).max(1).describe('Normalized width of the bounding box (0.0 to 1.0).'),
+  height: z.number().min(0).max(1).describe('Normalized height of the bounding box (0.0 to 1.0).'),
+});
+
+const FocusedObjectSchema = z.object({
+  label: z.string().describe('Label of the highlighted instance the user tapped, e.g. "apel #2".'),
+  boundingBox: BoundingBoxSchema.describe('Bounding box of the tapped instance in the context photo.'),
+});
+
+const AssistantModeInputSchema = z.object({
+  id: z.string().min(1).describe('A built-in mode (general, accessibility, inventory, document, tutor) or the id of a custom mode.'),
+  label: z.string().optional().describe('Name of a custom mode. Ignored for built-in modes.'),
+  instructions: z.string().max(4000).optional().describe('Persona and task instructions of a custom mode. A custom mode without instructions falls back to general.'),
+  tools: z.array(z.enum(['searchInternetTool'])).optional().describe('Tools a custom mode may use. Defaults to none.'),
+  countObjects: z.enum(['never', 'onRequest', 'always']).optional().describe('Whether a custom mode counts and locates objects. Defaults to onRequest.'),
+});
+
+export const ContextualChatWithVisionInputSchema = z.object({
   photoDataUri: z
     .string()
     .optional()
@@ -27,136 +68,244 @@ const ContextualChatWithVisionInputSchema = z.object({
       "A photo from the camera feed, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'. This is for the CURRENT turn."
     ),
   question: z.string().describe('The question about the camera feed for the CURRENT turn.'),
+  focus: FocusedObjectSchema
+    .optional()
+    .describe('Set when the user tapped a highlighted object to ask about it. `photoDataUri` is then a crop of that object.'),
+  region: BoundingBoxSchema
+    .optional()
+    .describe('Set when the user selected a region of interest. `photoDataUri` is then a crop of this region of the full frame.'),
+  contextPhotoDataUri: z
+    .string()
+    .optional()
+    .describe('The full frame that `photoDataUri` was cropped from, as a data URI. Only set together with `focus` or `region`.'),
   history: z
     .array(ChatHistoryItemSchema)
     .optional()
     .describe('Previous messages in the conversation.'),
+  historySummary: z
+    .string()
+    .optional()
+    .describe('Summary of turns older than `history`, for long conversations that no longer send every message.'),
+  bypassCache: z
+    .boolean()
+    .optional()
+    .describe('Skip the response cache lookup for this request. The fresh answer still replaces the cached one.'),
+  mode: AssistantModeInputSchema
+    .optional()
+    .describe('The assistant mode to answer in. Defaults to the general assistant.'),
+  promptVersion: z
+    .string()
+    .optional()
+    .refine(version => version === undefined || promptVersions('contextual-chat-with-vision').includes(version), {
+      message: 'Unknown prompt version.',
+    })
+    .describe('Version of the prompt template to answer with, e.g. "v1", for A/B comparisons. Defaults to the current version.'),
 });
 export type ContextualChatWithVisionInput = z.infer<
   typeof ContextualChatWithVisionInputSchema
 >;
 
-// Schema for bounding boxes and counted objects
-const BoundingBoxSchema = z.object({
-  x: z.number().min(0).max(1).describe('Normalized top-left x-coordinate of the bounding box (0.0 to 1.0).'),
-  y: z.number().min(0).max(1).describe('Normalized top-left y-coordinate of the bounding box (0.0 to 1.0).'),
-  width: z.number().min(0).max(1).describe('Normalized width of the bounding box (0.0 to 1.0).'),
-  height: z.number().min(0).max(1).describe('Normalized height of the bounding box (0.0 to 1.0).'),
-});
 
 const CountedObjectInstanceSchema = z.object({
   boundingBox: BoundingBoxSchema.describe('Bounding box for this specific instance of the object.'),
 });
 
-const CountedObjectSchema = z.object({
+export const CountedObjectSchema = z.object({
   name: z.string().describe('The name of the object type identified (e.g., "apel", "mobil").'),
   count: z.number().int().min(0).describe('The number of instances of this object type found.'),
   instances: z.array(CountedObjectInstanceSchema).describe('A list of all detected instances of this object type, each with its bounding box.'),
 });
 
-const ContextualChatWithVisionOutputSchema = z.object({
+// Schema for sources returned by searchInternetTool that back the answer
+const CitationSchema = z.object({
+  title: z.string().describe('Title of the source, as returned by searchInternetTool.'),
+  url: z.string().describe('URL of the source, exactly as returned by searchInternetTool.'),
+  snippet: z.string().optional().describe('The snippet of the source that supports the claim.'),
+  claim: z.string().describe('The sentence or claim in the answer that this source supports.'),
+});
+
+// What the model produces. The flow adds `model` once it knows which model answered.
+const ContextualChatWithVisionPromptOutputSchema = ai.defineSchema('ContextualChatWithVisionPromptOutput', z.object({
   answer: z.string().describe('Jawaban atas pertanyaan tersebut.'),
   countedObjects: z.array(CountedObjectSchema).optional().describe('An array of objects counted in the image, each with its name, count, and bounding boxes for individual instances. This should only be populated if the user specifically asked to count objects and an image was provided.'),
+  citations: z.array(CitationSchema).optional().describe('Sources from searchInternetTool that support the answer. The answer references them with 1-based markers like [1], [2] in the same order. Only populated when searchInternetTool was used.'),
+}));
+
+type ContextualChatWithVisionPromptOutput = z.infer<typeof ContextualChatWithVisionPromptOutputSchema>;
+
+export const ContextualChatWithVisionSuccessSchema = ContextualChatWithVisionPromptOutputSchema.extend({
+  status: z.literal('ok'),
+  model: z.string().optional().describe('The Genkit model that produced the answer; differs from the default model when a fallback answered.'),
+  cache: z.object({
+    hit: z.boolean().describe('True when the answer was served from the response cache without calling a model.'),
+    key: z.string().describe('The cache key of the request.'),
+    ageMs: z.number().optional().describe('Age of the cached answer, on a hit.'),
+  }).optional().describe('Response cache metadata; unset when the cache is disabled.'),
+  usage: UsageSchema.optional().describe('Tokens, tool calls, latency and estimated cost of this answer. All zero on a cache hit.'),
+  mode: z.object({
+    id: z.string(),
+    label: z.string(),
+  }).optional().describe('The assistant mode the answer was given in.'),
+  promptVersion: z.string().optional().describe('Version of the prompt template that produced the answer.'),
 });
+export type ContextualChatWithVisionSuccess = z.infer<
+  typeof ContextualChatWithVisionSuccessSchema
+>;
+
+export const ContextualChatWithVisionOutputSchema = z.discriminatedUnion('status', [
+  ContextualChatWithVisionSuccessSchema,
+  z.object({
+    status: z.literal('error'),
+    error: FlowErrorSchema,
+  }),
+]);
 export type ContextualChatWithVisionOutput = z.infer<
   typeof ContextualChatWithVisionOutputSchema
 >;
 
-export async function contextualChatWithVision(
-  input: ContextualChatWithVisionInput
-): Promise<ContextualChatWithVisionOutput> {
-  return contextualChatWithVisionFlow(input);
+const DEFAULT_HISTORY_TOKEN_BUDGET = 8000;
+
+function resolveHistoryTokenBudget(): number {
+  const parsed = Number.parseInt(process.env.AI_HISTORY_TOKEN_BUDGET ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+const historyTokenBudget = resolveHistoryTokenBudget();
+
+// Gemini rejects requests with more than 20 MB of inline data; leave room for the prompt and history.
+const MAX_INLINE_IMAGE_BYTES = 15 * 1024 * 1024;
+
+// API clients may send the whole conversation; drop the oldest turns rather than overflow the context.
+function withHistoryWithinBudget(input: ContextualChatWithVisionInput): ContextualChatWithVisionInput {
+  if (!input.history?.length) return input;
+  const budget = historyTokenBudget - estimateTokens(input.historySummary ?? '');
+  const history = trimHistoryToBudget(input.history, budget);
+  if (history.length === input.history.length && history[0] === input.history[0]) return input;
+  console.warn('[contextualChatWithVisionFlow] History over', historyTokenBudget, 'estimated tokens; sending the last', history.length, 'of', input.history.length, 'messages.');
+  return { ...input, history };
 }
 
-const prompt = ai.definePrompt({
-  name: 'contextualChatWithVisionPrompt',
-  input: {schema: ContextualChatWithVisionInputSchema},
-  output: {schema: ContextualChatWithVisionOutputSchema},
-  tools: [searchInternetTool],
-  prompt: `Anda adalah chatbot AI serbaguna yang cerdas, Farqon VisionAI.
-Anda dapat melihat melalui kamera, memahami gambar, dan menjawab pertanyaan pengguna dalam sebuah percakapan berkelanjutan.
-Anda juga memiliki kemampuan untuk mencari informasi di internet secara real-time menggunakan alat 'searchInternetTool'.
-
-Tugas Utama Anda:
-1.  Pahami pertanyaan pengguna dengan saksama.
-2.  Analisis gambar saat ini (jika diberikan dan relevan dengan pertanyaan).
-3.  Gunakan riwayat percakapan sebelumnya untuk menjaga konteks.
-4.  Jika pertanyaan pengguna secara eksplisit meminta pencarian internet (misalnya, "cari di internet tentang X", "apa berita terbaru Y?", "temukan informasi Z"), atau jika pertanyaan tersebut memerlukan informasi yang sangat baru atau spesifik yang kemungkinan besar tidak ada dalam data pelatihan Anda (seperti peristiwa terkini, harga saham real-time, cuaca hari ini), maka **gunakan alat 'searchInternetTool'**. Ekstrak topik atau kata kunci utama dari pertanyaan pengguna sebagai parameter 'query' untuk alat tersebut.
-5.  Setelah menggunakan alat (jika perlu), gabungkan informasi yang diperoleh dari alat, analisis gambar, dan riwayat percakapan untuk menyusun jawaban yang komprehensif, akurat, dan relevan.
-6.  Jika Anda menggunakan alat pencarian, sebutkan secara singkat bahwa Anda mencari informasi tersebut dari internet.
-7.  Selalu berikan jawaban Anda dalam Bahasa Indonesia.
-8.  Saat Anda merespons, jika Anda menggunakan tanda bintang (*), gunakanlah sebagai tanda baca seperti untuk membuat poin-poin atau untuk penekanan, dan jangan menyebutkannya sebagai 'asteris' atau 'tanda bintang'.
-
-Instruksi Khusus untuk Menghitung Objek:
-Jika pertanyaan pengguna secara eksplisit meminta untuk menghitung objek (misalnya, "hitung jumlah X", "ada berapa Y di gambar ini?", "lingkari dan hitung semua Z yang terlihat", "identifikasi dan hitung benda-benda di gambar ini", "berapa banyak objek ini"), maka Anda HARUS:
-1.  Memastikan ada gambar yang disediakan melalui \`photoDataUri\`. Jika tidak ada, jelaskan bahwa Anda memerlukan gambar untuk menghitung.
-2.  Menganalisis gambar yang diberikan dengan cermat.
-3.  Identifikasi objek-objek yang berbeda dalam gambar sesuai permintaan pengguna.
-4.  Untuk setiap JENIS objek yang Anda temukan dan relevan dengan permintaan:
-    a.  Sebutkan NAMA objek tersebut (misalnya, "apel", "orang", "mobil").
-    b.  Hitung berapa banyak INSTANSI dari jenis objek tersebut yang Anda lihat.
-5.  Untuk setiap INSTANSI individual dari objek yang Anda hitung, berikan koordinat KOTAK PEMBATAS (bounding box).
-    Kotak pembatas harus berupa objek dengan properti \`x\`, \`y\`, \`width\`, dan \`height\`.
-    - \`x\`: Koordinat x (horizontal) dari sudut kiri atas kotak, dinormalisasi antara 0.0 dan 1.0.
-    - \`y\`: Koordinat y (vertikal) dari sudut kiri atas kotak, dinormalisasi antara 0.0 dan 1.0.
-    - \`width\`: Lebar kotak, dinormalisasi antara 0.0 dan 1.0.
-    - \`height\`: Tinggi kotak, dinormalisasi antara 0.0 dan 1.0.
-    Semua nilai ini relatif terhadap dimensi gambar keseluruhan.
-6.  Isi bidang \`countedObjects\` dalam output JSON Anda sesuai dengan struktur yang didefinisikan.
-    - Setiap elemen dalam array \`countedObjects\` harus mewakili satu JENIS objek yang Anda hitung.
-    - Setiap elemen harus memiliki bidang \`name\` (nama jenis objek), \`count\` (jumlah instansi jenis objek tersebut), dan \`instances\`.
-    - Bidang \`instances\` harus berupa array, di mana setiap elemennya adalah objek yang berisi \`boundingBox\` untuk setiap instansi individual yang terdeteksi dari jenis objek tersebut.
-7.  Dalam jawaban TEKSTUAL Anda (\`answer\`), ringkaslah apa yang telah Anda hitung (misalnya, "Saya melihat 3 apel dan 1 pisang."), jumlah total setiap jenis objek, dan sebutkan bahwa Anda telah (secara konseptual) "menandai" atau "melingkari" objek-objek tersebut jika Anda berhasil mengisi data \`countedObjects\`. Jangan mencoba menggambar atau memodifikasi gambar secara langsung; cukup berikan data bounding box melalui \`countedObjects\`.
-8.  Jika tidak ada gambar yang disediakan (\`photoDataUri\` kosong) meskipun pengguna meminta penghitungan, atau jika pertanyaan tidak terkait dengan penghitungan objek di gambar, JANGAN mengisi bidang \`countedObjects\` dan jelaskan dalam \`answer\` jika relevan.
-
-Riwayat Percakapan Sebelumnya:
-{{#if history}}
-  {{#each history}}
-    {{this.role}}: {{this.content}}
-  {{/each}}
-{{else}}
-Tidak ada riwayat percakapan. Ini adalah pesan pertama.
-{{/if}}
-
----
-Input Pengguna Saat Ini:
-Pertanyaan: {{{question}}}
-{{#if photoDataUri}}
-Gambar Saat Ini (gunakan ini jika relevan dengan pertanyaan dan pertanyaan tersebut berkaitan dengan analisis visual atau penghitungan objek): {{media url=photoDataUri}}
-{{else}}
-(Tidak ada gambar baru yang diberikan untuk pertanyaan saat ini, atau pertanyaan tidak memerlukan analisis gambar)
-{{/if}}
-  `,
+const failed = (error: FlowError): ContextualChatWithVisionOutput => ({ status: 'error', error });
+
+const assistantTools: Record<AssistantToolName, typeof searchInternetTool> = {
+  searchInternetTool,
+};
+
+// The flow input plus the parts of the resolved mode the template needs.
+const ContextualChatWithVisionPromptInputSchema = ai.defineSchema('ContextualChatWithVisionPromptInput', ContextualChatWithVisionInputSchema.extend({
+  modeInstructions: z.string(),
+  searchEnabled: z.boolean(),
+  countingEnabled: z.boolean(),
+  countingAlways: z.boolean(),
+}));
+
+function promptInputFor(input: ContextualChatWithVisionInput, mode: AssistantMode): z.infer<typeof ContextualChatWithVisionPromptInputSchema> {
+  return {
+    ...input,
+    modeInstructions: mode.instructions,
+    searchEnabled: mode.tools.includes('searchInternetTool'),
+    countingEnabled: mode.countObjects !== 'never',
+    countingAlways: mode.countObjects === 'always',
+  };
+}
+
+// Streamed while the model is still generating. `answer` is the full partial answer so far, not a delta.
+const ContextualChatWithVisionChunkSchema = z.object({
+  answer: z.string().describe('The answer generated so far.'),
 });
+export type ContextualChatWithVisionChunk = z.infer<
+  typeof ContextualChatWithVisionChunkSchema
+>;
 
-const contextualChatWithVisionFlow = ai.defineFlow(
+export const contextualChatWithVisionFlow = ai.defineFlow(
   {
     name: 'contextualChatWithVisionFlow',
     inputSchema: ContextualChatWithVisionInputSchema,
     outputSchema: ContextualChatWithVisionOutputSchema,
+    streamSchema: ContextualChatWithVisionChunkSchema,
   },
-  async (input): Promise<ContextualChatWithVisionOutput> => {
-    console.log('[contextualChatWithVisionFlow] Input received:', input.question, 'Image present:', !!input.photoDataUri);
+  async (requestInput, {sendChunk, context}): Promise<ContextualChatWithVisionOutput> => {
+    const mode = resolveAssistantMode(requestInput.mode);
+    console.log('[contextualChatWithVisionFlow] Input received:', requestInput.question, 'Image present:', !!requestInput.photoDataUri, 'Mode:', mode.id);
+    const input = withHistoryWithinBudget(requestInput);
+    const modeRef = { id: mode.id, label: mode.label };
+    const {prompt, version: promptVersion} = resolvePrompt<typeof ContextualChatWithVisionPromptInputSchema, typeof ContextualChatWithVisionPromptOutputSchema>(
+      'contextual-chat-with-vision',
+      input.promptVersion,
+    );
+    const usage = createUsageRecorder();
+    const abortSignal = abortSignalFromContext(context); // Set by the chat route; fires when the client disconnects
+    const imageBytes = estimateDataUriBytes(input.photoDataUri) + estimateDataUriBytes(input.contextPhotoDataUri);
+    if (imageBytes > MAX_INLINE_IMAGE_BYTES) {
+      console.warn('[contextualChatWithVisionFlow] Images too large:', imageBytes, 'bytes.');
+      return failed({ code: 'IMAGE_TOO_LARGE', message: `Images total ${imageBytes} bytes; the limit is ${MAX_INLINE_IMAGE_BYTES}.` });
+    }
+
     try {
-      const {output} = await prompt(input);
+      // Inside the try: a bad cache setting or an image that cannot be hashed becomes a flow error, not a throw.
+      const cache = resolveResponseCache();
+      const cacheKey = cache
+        ? await chatResponseCacheKey({
+          ...input,
+          mode: { id: mode.id, instructions: mode.instructions, tools: mode.tools, countObjects: mode.countObjects },
+          promptVersion,
+        }, modelChain[0])
+        : undefined;
+      if (cache && cacheKey && !input.bypassCache) {
+        const hit = await cache.get<ContextualChatWithVisionSuccess>(cacheKey);
+        if (hit) {
+          sendChunk({ answer: hit.value.answer });
+          return { ...hit.value, cache: { hit: true, key: cacheKey, ageMs: hit.ageMs }, usage: usage.summarize(hit.value.model), mode: modeRef };
+        }
+      }
+      let lastStreamedAnswer = '';
+      const promptInput = promptInputFor(input, mode);
+      const tools = mode.tools.map(name => assistantTools[name]);
+      const {result: response, model} = await runWithModelFallback('contextualChatWithVisionFlow', (model) => prompt(promptInput, {
+        model,
+        tools,
+        use: [abortMiddleware(abortSignal), usage.middleware],
+        // sendChunk is a no-op unless the flow was called in streaming mode.
+        onChunk: (chunk) => {
+          throwIfAborted(abortSignal); // Ends the provider's stream instead of generating for nobody
+          const partialAnswer = (chunk.output as Partial<ContextualChatWithVisionPromptOutput> | null)?.answer;
+          if (typeof partialAnswer === 'string' && partialAnswer !== lastStreamedAnswer) {
+            lastStreamedAnswer = partialAnswer;
+            sendChunk({ answer: partialAnswer });
+          }
+        },
+      }));
+
+      // The model usually answers even when every search failed; report the failure instead of an unsupported answer.
+      const searchResponses = response.messages
+        .flatMap(message => message.content)
+        .flatMap(part => (part.toolResponse?.name === 'searchInternetTool' ? [part.toolResponse.output as SearchInternetOutput] : []));
+      const searchErrors = searchResponses.flatMap(output => (output?.error ? [output.error] : []));
+      if (searchErrors.length > 0 && searchErrors.length === searchResponses.length) {
+        console.warn('[contextualChatWithVisionFlow] Every internet search failed:', searchErrors[0].message);
+        return failed({ code: 'TOOL_FAILED', tool: 'searchInternetTool', message: searchErrors[0].message });
+      }
+
+      const {output} = response;
       if (!output) {
         console.error('[contextualChatWithVisionFlow] Prompt did not return an output.');
-        return { answer: "Maaf, saya tidak dapat menghasilkan respons saat ini karena output dari AI kosong.", countedObjects: undefined };
+        return failed({ code: 'MODEL_EMPTY_OUTPUT', message: `${model} returned no output matching the schema.` });
       }
-      console.log('[contextualChatWithVisionFlow] Output generated. Answer:', output.answer, 'Counted Objects:', output.countedObjects ? output.countedObjects.length : 'None');
-      return output;
-    } catch (error: any) {
-      console.error('[contextualChatWithVisionFlow] Error during AI processing:', error);
-      let errorMessageForUser = "Terjadi kesalahan internal saat memproses permintaan Anda.";
-      
-      if (error.message && (error.message.includes('429') || error.message.toLowerCase().includes('too many requests') || error.message.toLowerCase().includes('resource has been exhausted'))) {
-        errorMessageForUser = "Error: Batas penggunaan API telah tercapai. Silakan coba lagi nanti atau periksa kuota API Anda di Google Cloud Console.";
-        console.warn('[contextualChatWithVisionFlow] Encountered 429 Too Many Requests error.');
-      } else if (error.message) {
-        errorMessageForUser = `Error: Terjadi masalah saat menghubungi AI. (${error.message.substring(0, 100)}${error.message.length > 100 ? '...' : ''})`;
+      console.log('[contextualChatWithVisionFlow] Output generated by', model, 'with prompt', promptVersion, 'Answer:', output.answer, 'Counted Objects:', output.countedObjects ? output.countedObjects.length : 'None');
+      const countedObjects = mode.countObjects === 'never' ? undefined : output.countedObjects;
+      const result: ContextualChatWithVisionSuccess = { status: 'ok', ...output, countedObjects, model, usage: usage.summarize(model), mode: modeRef, promptVersion };
+      console.log('[contextualChatWithVisionFlow] Usage:', JSON.stringify(result.usage));
+      if (!cache || !cacheKey) return result;
+      await cache.set(cacheKey, result); // Errors are never cached
+      return { ...result, cache: { hit: false, key: cacheKey } };
+    } catch (error) {
+      if (error instanceof FlowAbortedError) {
+        console.log('[contextualChatWithVisionFlow] Stopped; the client aborted the request.');
+      } else {
+        console.error('[contextualChatWithVisionFlow] Error during AI processing:', error);
       }
-      
-      return { answer: errorMessageForUser, countedObjects: undefined };
+      console.log('[contextualChatWithVisionFlow] Usage before the error:', JSON.stringify(usage.summarize(undefined)));
+      return failed(toFlowError(error));
     }
   }
 );
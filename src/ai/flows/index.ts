@@ -1,2 +1,5 @@
 
-export * from './contextual-chat-with-vision';
+export * from './actions';
+export type * from './contextual-chat-with-vision';
+export type * from './live-analysis';
+export type * from './summarize-conversation';
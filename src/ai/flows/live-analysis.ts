@@ -0,0 +1,57 @@
+// src/ai/flows/live-analysis.ts
+/**
+ * @fileOverview A standing-question AI agent for live mode. It looks at periodically captured
+ * camera frames and reports a short observation for a question that stays the same across frames,
+ * such as "beri tahu saya saat ada orang masuk" or "terus hitung botol".
+ *
+ * - liveAnalysisFlow - The flow that analyzes one live frame. The prompt template is
+ *   prompts/live-analysis.<version>.prompt (see src/ai/prompt-registry.ts).
+ * - LiveAnalysisInput - The input type for the liveAnalysis flow.
+ * - LiveAnalysisOutput - The return type for the liveAnalysis flow.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {runWithModelFallback} from '@/ai/model-fallback';
+import {resolvePrompt} from '@/ai/prompt-registry';
+import {CountedObjectSchema} from './contextual-chat-with-vision';
+
+const LiveAnalysisInputSchema = ai.defineSchema('LiveAnalysisInput', z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "The latest frame from the camera feed, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  standingQuestion: z.string().describe('The question or condition to evaluate on every frame.'),
+  previousObservation: z
+    .string()
+    .optional()
+    .describe('The observation reported for the previous frame, used to describe changes.'),
+}));
+export type LiveAnalysisInput = z.infer<typeof LiveAnalysisInputSchema>;
+
+const LiveAnalysisOutputSchema = ai.defineSchema('LiveAnalysisOutput', z.object({
+  observation: z.string().describe('Pengamatan singkat (maksimal satu kalimat) untuk frame ini.'),
+  triggered: z.boolean().describe('True if the condition in the standing question is met in this frame (e.g. a person has entered). False for pure monitoring questions such as counting.'),
+  countedObjects: z.array(CountedObjectSchema).optional().describe('Objects counted in the frame with bounding boxes, only when the standing question asks for counting.'),
+}));
+export type LiveAnalysisOutput = z.infer<typeof LiveAnalysisOutputSchema>;
+
+export const liveAnalysisFlow = ai.defineFlow(
+  {
+    name: 'liveAnalysisFlow',
+    inputSchema: LiveAnalysisInputSchema,
+    outputSchema: LiveAnalysisOutputSchema,
+  },
+  async (input): Promise<LiveAnalysisOutput> => {
+    console.log('[liveAnalysisFlow] Frame received for standing question:', input.standingQuestion);
+    const {prompt, version} = resolvePrompt<typeof LiveAnalysisInputSchema, typeof LiveAnalysisOutputSchema>('live-analysis');
+    const {result: {output}, model} = await runWithModelFallback('liveAnalysisFlow', (model) => prompt(input, {model}));
+    if (!output) {
+      console.error('[liveAnalysisFlow] Prompt did not return an output.');
+      throw new Error('Output dari AI kosong.');
+    }
+    console.log('[liveAnalysisFlow] Observation from', model, 'with prompt', version, ':', output.observation, 'Triggered:', output.triggered);
+    return output;
+  }
+);
@@ -0,0 +1,49 @@
+// src/ai/flows/summarize-conversation.ts
+/**
+ * @fileOverview Summarizes the older turns of a long conversation, so the chat prompt can carry a
+ * short summary instead of the whole history (see src/lib/chat-context.ts).
+ *
+ * - summarizeConversationFlow - The flow that folds a batch of messages into a running summary. The prompt
+ *   template is prompts/summarize-conversation.<version>.prompt (see src/ai/prompt-registry.ts).
+ * - SummarizeConversationInput - The input type for the summarizeConversation flow.
+ * - SummarizeConversationOutput - The return type for the summarizeConversation flow.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {runWithModelFallback} from '@/ai/model-fallback';
+import {resolvePrompt} from '@/ai/prompt-registry';
+import {ChatHistoryItemSchema} from './contextual-chat-with-vision';
+
+const SummarizeConversationInputSchema = ai.defineSchema('SummarizeConversationInput', z.object({
+  previousSummary: z
+    .string()
+    .optional()
+    .describe('The summary of the turns before `messages`, to be extended rather than replaced.'),
+  messages: z.array(ChatHistoryItemSchema).min(1).describe('The messages to fold into the summary, oldest first.'),
+}));
+export type SummarizeConversationInput = z.infer<typeof SummarizeConversationInputSchema>;
+
+const SummarizeConversationOutputSchema = ai.defineSchema('SummarizeConversationOutput', z.object({
+  summary: z.string().describe('Ringkasan seluruh percakapan sejauh ini, maksimal sekitar 150 kata.'),
+}));
+export type SummarizeConversationOutput = z.infer<typeof SummarizeConversationOutputSchema>;
+
+export const summarizeConversationFlow = ai.defineFlow(
+  {
+    name: 'summarizeConversationFlow',
+    inputSchema: SummarizeConversationInputSchema,
+    outputSchema: SummarizeConversationOutputSchema,
+  },
+  async (input): Promise<SummarizeConversationOutput> => {
+    console.log('[summarizeConversationFlow] Summarizing', input.messages.length, 'messages. Previous summary present:', !!input.previousSummary);
+    const {prompt, version} = resolvePrompt<typeof SummarizeConversationInputSchema, typeof SummarizeConversationOutputSchema>('summarize-conversation');
+    const {result: {output}, model} = await runWithModelFallback('summarizeConversationFlow', (model) => prompt(input, {model}));
+    if (!output?.summary.trim()) {
+      console.error('[summarizeConversationFlow] Prompt did not return a summary.');
+      throw new Error('Ringkasan dari AI kosong.');
+    }
+    console.log('[summarizeConversationFlow] Summary from', model, 'with prompt', version, ':', output.summary.length, 'characters.');
+    return output;
+  }
+);
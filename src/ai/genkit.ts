@@ -1,10 +1,19 @@
+import path from 'path';
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {resolveModelProvider} from '@/ai/providers';
+
+// Versioned dotprompt templates, loaded by Genkit at startup; see src/ai/prompt-registry.ts.
+export const PROMPT_DIR = path.resolve(process.cwd(), 'prompts');
+
+// Defaults to Google AI with 'googleai/gemini-2.5-flash-preview-04-17'.
+// Set AI_PROVIDER (and optionally AI_MODEL) to run against another backend; see src/ai/providers.
+const {plugin, model, fallbackModels} = resolveModelProvider();
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  // User requested and now using 'googleai/gemini-2.5-flash-preview-04-17'.
-  // This model is expected to provide advanced multimodal capabilities.
-  model: 'googleai/gemini-2.5-flash-preview-04-17',
+  plugins: [plugin],
+  model,
+  promptDir: PROMPT_DIR,
 });
 
+// The default model followed by its fallbacks, in the order src/ai/model-fallback.ts tries them.
+export const modelChain = [model, ...fallbackModels];
@@ -0,0 +1,177 @@
+/**
+ * @fileOverview Retry, backoff, model fallback and circuit breaking around model calls.
+ *
+ * - runWithModelFallback - Runs a model call against the configured model chain and reports which model answered.
+ * - classifyModelError - Sorts a model error into quota, transient or fatal, with the server's retry delay if known.
+ * - ModelUnavailableError - Thrown when every model in the chain failed or is cooling down.
+ *
+ * Each model is retried with jittered exponential backoff (honoring retry-after) on quota and
+ * transient errors. When its retries are used up the next model in the chain is tried. A model that
+ * ran out of quota, or failed CIRCUIT_FAILURE_THRESHOLD calls in a row, is skipped until its
+ * cooldown ends. The chain comes from the provider and AI_FALLBACK_MODELS; see src/ai/providers.
+ * AI_MAX_RETRIES and AI_CIRCUIT_COOLDOWN_MS tune the retry count and cooldown window.
+ */
+
+import {FlowAbortedError} from '@/ai/abort';
+import {modelChain} from '@/ai/genkit';
+import {nonNegativeIntFromEnv, positiveIntFromEnv} from '@/lib/env';
+
+export type ModelErrorKind = 'quota' | 'transient' | 'fatal';
+
+export interface ClassifiedModelError {
+  kind: ModelErrorKind;
+  retryAfterMs?: number; // From Retry-After or the provider's RetryInfo, when present
+}
+
+const MAX_RETRIES = nonNegativeIntFromEnv(process.env.AI_MAX_RETRIES, 2);
+const CIRCUIT_COOLDOWN_MS = positiveIntFromEnv(process.env.AI_CIRCUIT_COOLDOWN_MS, 60_000);
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const BASE_RETRY_DELAY_MS = 500;
+// Longer server-requested waits are not slept through; the next model is tried instead.
+const MAX_RETRY_DELAY_MS = 10_000;
+
+const QUOTA_STATUSES = new Set<unknown>([429, 'RESOURCE_EXHAUSTED']);
+const TRANSIENT_STATUSES = new Set<unknown>([500, 502, 503, 504, 'UNAVAILABLE', 'DEADLINE_EXCEEDED', 'INTERNAL', 'ABORTED']);
+const QUOTA_PATTERN = /\b429\b|too many requests|resource has been exhausted|quota/i;
+const TRANSIENT_PATTERN = /\b50[0234]\b|unavailable|overloaded|timed? ?out|ECONNRESET|ETIMEDOUT|ECONNREFUSED|fetch failed|socket hang up/i;
+
+export class ModelUnavailableError extends Error {
+  constructor(
+    readonly kind: Exclude<ModelErrorKind, 'fatal'>,
+    readonly models: string[],
+    readonly retryAfterMs?: number,
+    readonly lastError?: unknown,
+  ) {
+    super(`Tidak ada model yang tersedia (${kind === 'quota' ? 'kuota habis' : 'gangguan sementara'}): ${models.join(', ')}.`);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number; // Epoch ms; the model is skipped until then
+  reason?: Exclude<ModelErrorKind, 'fatal'>; // Why the circuit was opened
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function circuitFor(model: string): CircuitState {
+  let state = circuits.get(model);
+  if (!state) {
+    state = {consecutiveFailures: 0, openUntil: 0};
+    circuits.set(model, state);
+  }
+  return state;
+}
+
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value * 1000;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value); // Retry-After may also be an HTTP date
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// The fields provider errors carry (GenkitError, GoogleGenerativeAIFetchError, the OpenAI-compatible HTTP error).
+interface ModelErrorFields {
+  status?: unknown;
+  code?: unknown;
+  message?: unknown;
+  retryAfter?: unknown;
+  errorDetails?: unknown;
+  retryDelay?: unknown; // On a Google AI RetryInfo entry of errorDetails
+}
+
+function errorFields(error: unknown): ModelErrorFields {
+  return typeof error === 'object' && error !== null ? error : {};
+}
+
+function retryAfterFromError(error: ModelErrorFields): number | undefined {
+  const fromField = parseRetryAfter(error.retryAfter);
+  if (fromField !== undefined) return fromField;
+  // Google AI reports `{ "@type": "...RetryInfo", "retryDelay": "13s" }` in errorDetails.
+  const retryDelay = Array.isArray(error.errorDetails)
+    ? error.errorDetails.map(errorFields).find(detail => typeof detail.retryDelay === 'string')?.retryDelay
+    : undefined;
+  if (typeof retryDelay === 'string') return parseRetryAfter(retryDelay.replace(/s$/, ''));
+  const match = String(error.message ?? '').match(/retry(?:Delay)?"?\s*[:=]?\s*"?(?:in\s+)?(\d+(?:\.\d+)?)\s*s\b/i);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+export function classifyModelError(error: unknown): ClassifiedModelError {
+  const fields = errorFields(error);
+  const status = fields.status ?? fields.code;
+  const message = String(fields.message ?? '');
+  const retryAfterMs = retryAfterFromError(fields);
+  if (QUOTA_STATUSES.has(status) || QUOTA_PATTERN.test(message)) return {kind: 'quota', retryAfterMs};
+  if (TRANSIENT_STATUSES.has(status) || TRANSIENT_PATTERN.test(message)) return {kind: 'transient', retryAfterMs};
+  return {kind: 'fatal'};
+}
+
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return ceiling / 2 + Math.random() * (ceiling / 2); // Jitter over the upper half
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Calls `run` with each model of the chain in turn until one succeeds. Fatal errors (bad requests,
+ * safety blocks, ...) are rethrown at once since another model would not fare better.
+ */
+export async function runWithModelFallback<T>(
+  label: string,
+  run: (model: string) => Promise<T>,
+  models: string[] = modelChain,
+): Promise<{result: T; model: string}> {
+  let lastError: unknown;
+  let lastKind: Exclude<ModelErrorKind, 'fatal'> = 'transient';
+  let soonestRetryMs: number | undefined;
+
+  for (const model of models) {
+    const circuit = circuitFor(model);
+    if (circuit.openUntil > Date.now()) {
+      const remaining = circuit.openUntil - Date.now();
+      console.warn(`[${label}] Skipping ${model}; circuit open for another ${Math.ceil(remaining / 1000)}s.`);
+      lastKind = circuit.reason ?? lastKind;
+      soonestRetryMs = soonestRetryMs === undefined ? remaining : Math.min(soonestRetryMs, remaining);
+      continue;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await run(model);
+        circuit.consecutiveFailures = 0;
+        circuit.openUntil = 0;
+        if (model !== models[0]) console.warn(`[${label}] Answered by fallback model ${model}.`);
+        return {result, model};
+      } catch (error) {
+        const {kind, retryAfterMs} = classifyModelError(error);
+        if (kind === 'fatal' || error instanceof FlowAbortedError) throw error;
+        lastError = error;
+        lastKind = kind;
+
+        const delay = backoffDelay(attempt, retryAfterMs);
+        if (attempt < MAX_RETRIES && delay <= MAX_RETRY_DELAY_MS) {
+          console.warn(`[${label}] ${kind} error from ${model} (attempt ${attempt + 1}); retrying in ${Math.round(delay)}ms.`);
+          await sleep(delay);
+          continue;
+        }
+
+        circuit.consecutiveFailures++;
+        if (kind === 'quota' || circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+          const cooldown = Math.max(CIRCUIT_COOLDOWN_MS, retryAfterMs ?? 0);
+          circuit.openUntil = Date.now() + cooldown;
+          circuit.reason = kind;
+          soonestRetryMs = soonestRetryMs === undefined ? cooldown : Math.min(soonestRetryMs, cooldown);
+          console.warn(`[${label}] Opening circuit for ${model} for ${Math.round(cooldown / 1000)}s after ${kind} error.`);
+        }
+        break;
+      }
+    }
+  }
+
+  throw new ModelUnavailableError(lastKind, models, soonestRetryMs, lastError);
+}
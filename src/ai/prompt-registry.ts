@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Versioned prompt templates.
+ *
+ * Prompts live in /prompts as dotprompt files named `<prompt>.<version>.prompt`, e.g.
+ * `contextual-chat-with-vision.v1.prompt`. Genkit loads every file as a variant of its prompt, so
+ * versions sit side by side and a request can pick one for A/B comparisons. The front matter holds
+ * the model, the input and output schema names (registered with `ai.defineSchema` by the flows)
+ * and a `version` that must match the file name.
+ *
+ * - PromptName - The prompts the flows use.
+ * - promptVersions - Versions available for a prompt, oldest first.
+ * - defaultPromptVersion - The newest version, unless pinned with AI_PROMPT_VERSION_<PROMPT>,
+ *   e.g. AI_PROMPT_VERSION_CONTEXTUAL_CHAT_WITH_VISION=v1 while v2 is being compared.
+ * - resolvePrompt - The executable prompt for a version (default: the default version) and that version.
+ * - UnknownPromptVersionError - Thrown for a version that has no prompt file.
+ */
+
+import {readdirSync, readFileSync} from 'fs';
+import path from 'path';
+import type {z} from 'genkit';
+import {ai, PROMPT_DIR} from '@/ai/genkit';
+
+export type PromptName = 'contextual-chat-with-vision' | 'live-analysis' | 'summarize-conversation';
+
+const PROMPT_NAMES: PromptName[] = ['contextual-chat-with-vision', 'live-analysis', 'summarize-conversation'];
+const PROMPT_FILE_PATTERN = /^([a-z0-9-]+)\.([\w-]+)\.prompt$/;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---/;
+const VERSION_PATTERN = /^version:\s*['"]?([\w-]+)['"]?\s*$/m;
+
+export class UnknownPromptVersionError extends Error {
+  constructor(readonly prompt: PromptName, readonly version: string, readonly available: string[]) {
+    super(`Unknown version "${version}" of prompt "${prompt}". Available: ${available.join(', ')}.`);
+    this.name = 'UnknownPromptVersionError';
+  }
+}
+
+let versionIndex: Map<PromptName, string[]> | null = null;
+
+// Scanned once; Genkit also reads the folder only at startup.
+function loadVersionIndex(): Map<PromptName, string[]> {
+  if (versionIndex) return versionIndex;
+  const index = new Map<PromptName, string[]>(PROMPT_NAMES.map(name => [name, []]));
+  for (const fileName of readdirSync(PROMPT_DIR)) {
+    const match = fileName.match(PROMPT_FILE_PATTERN);
+    const versions = match && index.get(match[1] as PromptName);
+    if (!match || !versions) continue;
+    const frontMatter = readFileSync(path.join(PROMPT_DIR, fileName), 'utf8').match(FRONT_MATTER_PATTERN)?.[1] ?? '';
+    const declared = frontMatter.match(VERSION_PATTERN)?.[1];
+    if (declared !== match[2]) {
+      throw new Error(`Prompt file ${fileName} declares version "${declared ?? '(none)'}"; it must match the file name.`);
+    }
+    versions.push(match[2]);
+  }
+  for (const [name, versions] of index) {
+    if (versions.length === 0) throw new Error(`No prompt files for "${name}" in ${PROMPT_DIR}.`);
+    versions.sort((a, b) => a.localeCompare(b, undefined, {numeric: true}));
+  }
+  versionIndex = index;
+  return index;
+}
+
+export function promptVersions(name: PromptName): string[] {
+  return loadVersionIndex().get(name) ?? [];
+}
+
+export function defaultPromptVersion(name: PromptName): string {
+  const versions = promptVersions(name);
+  const pinned = process.env[`AI_PROMPT_VERSION_${name.toUpperCase().replace(/-/g, '_')}`]?.trim();
+  if (pinned) {
+    if (!versions.includes(pinned)) throw new UnknownPromptVersionError(name, pinned, versions);
+    return pinned;
+  }
+  return versions[versions.length - 1];
+}
+
+export function resolvePrompt<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(name: PromptName, version?: string) {
+  const resolvedVersion = version ?? defaultPromptVersion(name);
+  const versions = promptVersions(name);
+  if (!versions.includes(resolvedVersion)) throw new UnknownPromptVersionError(name, resolvedVersion, versions);
+  return {prompt: ai.prompt<I, O>(name, {variant: resolvedVersion}), version: resolvedVersion};
+}
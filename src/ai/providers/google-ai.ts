@@ -0,0 +1,18 @@
+/**
+ * @fileOverview The Google AI (Gemini) model provider. This is the default backend.
+ */
+
+import {googleAI} from '@genkit-ai/googleai';
+import type {ModelProvider} from './types';
+
+export const googleAIProvider: ModelProvider = {
+  id: 'googleai',
+  label: 'Google AI (Gemini)',
+  create: () => ({
+    plugin: googleAI(),
+    // This model is expected to provide advanced multimodal capabilities.
+    defaultModel: 'googleai/gemini-2.5-flash-preview-04-17',
+    // Lighter models with separate quotas, still multimodal.
+    fallbackModels: ['googleai/gemini-2.0-flash', 'googleai/gemini-2.0-flash-lite'],
+  }),
+};
@@ -0,0 +1,60 @@
+/**
+ * @fileOverview Registry of model providers that can back the Genkit instance in `src/ai/genkit.ts`.
+ *
+ * The provider is selected with the `AI_PROVIDER` environment variable:
+ * - `googleai` (default) - Gemini via GOOGLE_API_KEY / GEMINI_API_KEY.
+ * - `openai-compatible` - OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_API_KEY, OPENAI_COMPAT_MODEL.
+ * - `ollama` - OLLAMA_SERVER_ADDRESS, OLLAMA_MODEL.
+ * - `mock` - deterministic canned answers, works fully offline.
+ *
+ * `AI_MODEL` overrides the provider's default model with a fully-qualified Genkit model name.
+ * `AI_FALLBACK_MODELS` overrides the provider's fallback chain with comma-separated Genkit model
+ * names (`none` disables fallback); see src/ai/model-fallback.ts.
+ */
+
+import {googleAIProvider} from './google-ai';
+import {mockProvider} from './mock';
+import {ollamaProvider} from './ollama';
+import {openAICompatibleProvider} from './openai-compatible';
+import type {ModelProvider, ModelProviderId} from './types';
+
+export type {ModelProvider, ModelProviderId, ModelProviderSetup} from './types';
+export {MOCK_MODEL_NAME, mockContextualChatResponse} from './mock';
+
+export const modelProviders: Record<ModelProviderId, ModelProvider> = {
+  googleai: googleAIProvider,
+  'openai-compatible': openAICompatibleProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_MODEL_PROVIDER_ID: ModelProviderId = 'googleai';
+
+function isModelProviderId(value: string): value is ModelProviderId {
+  return Object.prototype.hasOwnProperty.call(modelProviders, value);
+}
+
+function resolveFallbackModels(primary: string, providerDefaults: string[] = []): string[] {
+  const configured = process.env.AI_FALLBACK_MODELS?.trim();
+  const models = configured === undefined || configured === ''
+    ? providerDefaults
+    : configured.toLowerCase() === 'none' ? [] : configured.split(',').map(name => name.trim()).filter(Boolean);
+  return [...new Set(models)].filter(name => name !== primary);
+}
+
+/** Resolves the configured provider, the model the Genkit instance should default to, and its fallbacks. */
+export function resolveModelProvider() {
+  const requestedId = (process.env.AI_PROVIDER || DEFAULT_MODEL_PROVIDER_ID).trim().toLowerCase();
+  if (!isModelProviderId(requestedId)) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${requestedId}". Expected one of: ${Object.keys(modelProviders).join(', ')}.`
+    );
+  }
+  const provider = modelProviders[requestedId];
+  const setup = provider.create();
+  const model = process.env.AI_MODEL || setup.defaultModel;
+  const fallbackModels = resolveFallbackModels(model, setup.fallbackModels);
+  const fallbackNote = fallbackModels.length > 0 ? ` (fallbacks: ${fallbackModels.join(', ')})` : '';
+  console.log(`[modelProviders] Using provider "${provider.id}" with model "${model}"${fallbackNote}.`);
+  return {provider, plugin: setup.plugin, model, fallbackModels};
+}
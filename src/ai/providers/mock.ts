@@ -0,0 +1,166 @@
+/**
+ * @fileOverview A deterministic, offline model provider for demos and tests.
+ *
+ * The mock model never calls tools or the network. It reads the current question from the
+ * rendered prompt and answers with a canned `ContextualChatWithVisionOutput` JSON payload,
+ * including `countedObjects` when the question asks for counting and an image is attached, and
+ * `citations` when the question asks for an internet search and the request offers tools. Requests from the live-analysis
+ * prompt (recognized by its "Pertanyaan Tetap:" line) get a canned `LiveAnalysisOutput`, and
+ * requests from the conversation summary prompt ("Pesan yang Diringkas:") a summary listing the
+ * questions asked.
+ */
+
+import {genkitPlugin} from 'genkit/plugin';
+import type {GenerateResponseChunkData, GenerateResponseData, MessageData} from 'genkit/model';
+import type {CountedObject} from '@/types';
+import type {ModelProvider} from './types';
+
+export const MOCK_MODEL_NAME = 'mock/vision-demo';
+
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const COUNTING_KEYWORDS = /\b(hitung|berapa|jumlah|count|how many)\b/i;
+const SEARCH_KEYWORDS = /\b(cari|internet|google|search|berita)\b/i;
+
+const CANNED_COUNTED_OBJECTS: CountedObject[] = [
+  {
+    name: 'apel',
+    count: 2,
+    instances: [
+      {boundingBox: {x: 0.12, y: 0.4, width: 0.18, height: 0.22}},
+      {boundingBox: {x: 0.36, y: 0.42, width: 0.17, height: 0.21}},
+    ],
+  },
+  {
+    name: 'pisang',
+    count: 1,
+    instances: [{boundingBox: {x: 0.6, y: 0.35, width: 0.28, height: 0.2}}],
+  },
+];
+
+/** Returns the canned payload the mock model produces for a question; `canSearch` is false in modes without tools. */
+export function mockContextualChatResponse(question: string, hasImage: boolean, canSearch = true) {
+  if (COUNTING_KEYWORDS.test(question)) {
+    if (!hasImage) {
+      return {answer: '(Mode demo) Saya memerlukan gambar dari kamera untuk menghitung objek.'};
+    }
+    return {
+      answer: '(Mode demo) Saya melihat 2 apel dan 1 pisang. Saya telah menandai objek-objek tersebut.',
+      countedObjects: CANNED_COUNTED_OBJECTS,
+    };
+  }
+  if (canSearch && SEARCH_KEYWORDS.test(question)) {
+    return {
+      answer: '(Mode demo) Menurut hasil pencarian contoh, ini adalah informasi terbaru tentang topik tersebut [1].',
+      citations: [
+        {
+          title: 'Hasil Contoh Pencarian',
+          url: 'https://example.com/search-fixture',
+          snippet: 'Ini adalah hasil pencarian contoh dari penyedia fixture lokal.',
+          claim: 'Ini adalah informasi terbaru tentang topik tersebut.',
+        },
+      ],
+    };
+  }
+  return {
+    answer: hasImage
+      ? `(Mode demo) Saya menerima gambar dan pertanyaan Anda: "${question}". Ini adalah jawaban contoh dari model tiruan.`
+      : `(Mode demo) Anda bertanya: "${question}". Ini adalah jawaban contoh dari model tiruan.`,
+  };
+}
+
+/** Returns the canned payload the mock model produces for a live-analysis frame. */
+export function mockLiveAnalysisResponse(standingQuestion: string) {
+  if (COUNTING_KEYWORDS.test(standingQuestion)) {
+    return {
+      observation: '(Mode demo) Terlihat 2 apel dan 1 pisang.',
+      triggered: false,
+      countedObjects: CANNED_COUNTED_OBJECTS,
+    };
+  }
+  return {
+    observation: '(Mode demo) Tidak ada perubahan yang relevan.',
+    triggered: false,
+  };
+}
+
+/** Returns the canned payload the mock model produces for a conversation summary. */
+export function mockConversationSummaryResponse(questions: string[]) {
+  return {
+    summary: questions.length > 0
+      ? `(Mode demo) Sebelumnya pengguna bertanya: ${questions.map(question => `"${question}"`).join('; ')}.`
+      : '(Mode demo) Ringkasan contoh dari percakapan sebelumnya.',
+  };
+}
+
+function lastUserMessage(messages: MessageData[]): MessageData | undefined {
+  return [...messages].reverse().find(message => message.role === 'user');
+}
+
+function messageText(message: MessageData | undefined): string {
+  return message?.content.map(part => part.text ?? '').join('') ?? '';
+}
+
+function extractQuestion(text: string): string {
+  // The contextual chat prompt renders the current question as "Pertanyaan: ...".
+  const match = text.match(/Pertanyaan:\s*(.+)/);
+  return (match ? match[1] : text).trim();
+}
+
+function extractStandingQuestion(text: string): string | null {
+  // The live-analysis prompt renders its question as "Pertanyaan Tetap: ...".
+  const match = text.match(/Pertanyaan Tetap:\s*(.+)/);
+  return match ? match[1].trim() : null;
+}
+
+function extractSummarizedQuestions(text: string): string[] | null {
+  // The conversation summary prompt lists the messages after "Pesan yang Diringkas:", one "role: content" per line.
+  const marker = text.indexOf('Pesan yang Diringkas:');
+  if (marker === -1) return null;
+  return [...text.slice(marker).matchAll(/^user:\s*(.+)$/gm)].map(match => match[1].trim());
+}
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Deterministic mock model',
+  create: () => ({
+    plugin: genkitPlugin('mock', async (ai) => {
+      ai.defineModel(
+        {
+          name: MOCK_MODEL_NAME,
+          label: 'Mock vision model (offline demo)',
+          supports: {multiturn: true, media: true, tools: true, systemRole: true, output: ['text', 'json']},
+        },
+        async (request, streamingCallback?: (chunk: GenerateResponseChunkData) => void): Promise<GenerateResponseData> => {
+          const userMessage = lastUserMessage(request.messages);
+          const hasImage = !!userMessage?.content.some(part => part.media);
+          const promptText = messageText(userMessage);
+          const standingQuestion = extractStandingQuestion(promptText);
+          const summarizedQuestions = extractSummarizedQuestions(promptText);
+          const text = JSON.stringify(
+            summarizedQuestions !== null
+              ? mockConversationSummaryResponse(summarizedQuestions)
+              : standingQuestion !== null
+                ? mockLiveAnalysisResponse(standingQuestion)
+                : mockContextualChatResponse(extractQuestion(promptText), hasImage, !!request.tools?.length)
+          );
+
+          if (streamingCallback) {
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+              streamingCallback({index: 0, content: [{text: text.slice(i, i + STREAM_CHUNK_SIZE)}]});
+              await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+            }
+          }
+
+          return {
+            message: {role: 'model', content: [{text}]},
+            finishReason: 'stop',
+            usage: {inputTokens: 0, outputTokens: 0},
+          };
+        }
+      );
+    }),
+    defaultModel: MOCK_MODEL_NAME,
+  }),
+};
@@ -0,0 +1,28 @@
+/**
+ * @fileOverview A model provider for a local Ollama (or any local OpenAI-compatible HTTP) server.
+ * Ollama exposes the chat-completions protocol under `/v1`, so this reuses the OpenAI-compatible model.
+ */
+
+import {genkitPlugin} from 'genkit/plugin';
+import {defineOpenAICompatibleModel} from './openai-compatible';
+import type {ModelProvider} from './types';
+
+export const ollamaProvider: ModelProvider = {
+  id: 'ollama',
+  label: 'Ollama / local HTTP server',
+  create: () => {
+    const serverAddress = process.env.OLLAMA_SERVER_ADDRESS || 'http://127.0.0.1:11434';
+    // Must be a vision-capable model for camera questions, e.g. llava or llama3.2-vision.
+    const model = process.env.OLLAMA_MODEL || 'llava';
+    return {
+      plugin: genkitPlugin('ollama', async (ai) => {
+        defineOpenAICompatibleModel(ai, {
+          namespace: 'ollama',
+          baseUrl: `${serverAddress.replace(/\/+$/, '')}/v1`,
+          model,
+        });
+      }),
+      defaultModel: `ollama/${model}`,
+    };
+  },
+};
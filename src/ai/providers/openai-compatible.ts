@@ -0,0 +1,268 @@
+/**
+ * @fileOverview A Genkit model provider for any server speaking the OpenAI chat-completions protocol
+ * (OpenAI itself, vLLM, LM Studio, LiteLLM, Ollama's `/v1` endpoint, ...).
+ *
+ * - openAICompatibleProvider - Provider configured through OPENAI_COMPAT_* environment variables.
+ * - defineOpenAICompatibleModel - Registers a chat-completions backed model on a Genkit instance.
+ */
+
+import type {Genkit} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+import type {
+  GenerateRequest,
+  GenerateResponseChunkData,
+  GenerateResponseData,
+  MessageData,
+  Part,
+} from 'genkit/model';
+import {abortSignalFromContext} from '@/ai/abort';
+import type {ModelProvider} from './types';
+
+export interface OpenAICompatibleModelOptions {
+  /** Genkit namespace for the model, e.g. `openai-compatible` or `ollama`. */
+  namespace: string;
+  /** Base URL that `/chat/completions` is appended to, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Model id as known by the remote server. */
+  model: string;
+}
+
+type OpenAIContentPart =
+  | {type: 'text'; text: string}
+  | {type: 'image_url'; image_url: {url: string}};
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {name: string; arguments: string};
+}
+
+type OpenAIMessage =
+  | {role: 'system'; content: string}
+  | {role: 'user'; content: OpenAIContentPart[]}
+  | {role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[]}
+  | {role: 'tool'; tool_call_id: string; content: string};
+
+function textOf(parts: Part[]): string {
+  return parts.map(part => part.text ?? '').join('');
+}
+
+function toOpenAIMessages(messages: MessageData[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = [];
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        result.push({role: 'system', content: textOf(message.content)});
+        break;
+      case 'user':
+        result.push({
+          role: 'user',
+          content: message.content.flatMap((part): OpenAIContentPart[] => {
+            if (part.text) return [{type: 'text', text: part.text}];
+            if (part.media) return [{type: 'image_url', image_url: {url: part.media.url}}];
+            return [];
+          }),
+        });
+        break;
+      case 'model': {
+        const toolCalls = message.content
+          .filter(part => part.toolRequest)
+          .map((part): OpenAIToolCall => ({
+            id: part.toolRequest!.ref ?? part.toolRequest!.name,
+            type: 'function',
+            function: {name: part.toolRequest!.name, arguments: JSON.stringify(part.toolRequest!.input ?? {})},
+          }));
+        result.push({
+          role: 'assistant',
+          content: textOf(message.content) || null,
+          ...(toolCalls.length > 0 ? {tool_calls: toolCalls} : {}),
+        });
+        break;
+      }
+      case 'tool':
+        for (const part of message.content) {
+          if (!part.toolResponse) continue;
+          result.push({
+            role: 'tool',
+            tool_call_id: part.toolResponse.ref ?? part.toolResponse.name,
+            content: JSON.stringify(part.toolResponse.output ?? null),
+          });
+        }
+        break;
+    }
+  }
+  return result;
+}
+
+function toFinishReason(reason: string | null | undefined): GenerateResponseData['finishReason'] {
+  switch (reason) {
+    case 'stop':
+    case 'tool_calls':
+      return 'stop';
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'blocked';
+    default:
+      return 'unknown';
+  }
+}
+
+function toGenkitParts(text: string | null | undefined, toolCalls: OpenAIToolCall[]): Part[] {
+  const parts: Part[] = [];
+  if (text) parts.push({text});
+  for (const call of toolCalls) {
+    let input: unknown = {};
+    try {
+      input = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch (e) {
+      console.warn(`[openAICompatibleModel] Could not parse arguments for tool call "${call.function.name}":`, call.function.arguments);
+    }
+    parts.push({toolRequest: {name: call.function.name, ref: call.id, input}});
+  }
+  return parts;
+}
+
+function buildRequestBody(request: GenerateRequest, model: string, stream: boolean) {
+  const config = (request.config ?? {}) as Record<string, any>;
+  return {
+    model,
+    messages: toOpenAIMessages(request.messages),
+    stream,
+    ...(stream ? {stream_options: {include_usage: true}} : {}),
+    ...(config.temperature !== undefined ? {temperature: config.temperature} : {}),
+    ...(config.maxOutputTokens !== undefined ? {max_tokens: config.maxOutputTokens} : {}),
+    ...(config.topP !== undefined ? {top_p: config.topP} : {}),
+    ...(config.stopSequences ? {stop: config.stopSequences} : {}),
+    ...(request.output?.format === 'json' ? {response_format: {type: 'json_object'}} : {}),
+    ...(request.tools && request.tools.length > 0
+      ? {
+          tools: request.tools.map(tool => ({
+            type: 'function',
+            function: {name: tool.name, description: tool.description, parameters: tool.inputSchema ?? {type: 'object'}},
+          })),
+        }
+      : {}),
+  };
+}
+
+async function readServerSentEvents(response: Response, onData: (data: any) => void): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const {value, done} = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, {stream: true});
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+        onData(JSON.parse(payload));
+      }
+    }
+  } finally {
+    // Also when onData throws (the flow was aborted): closing the body ends the upstream generation.
+    await reader.cancel().catch(() => {});
+  }
+}
+
+export function defineOpenAICompatibleModel(ai: Genkit, options: OpenAICompatibleModelOptions) {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const logTag = `[${options.namespace}Model]`;
+
+  return ai.defineModel(
+    {
+      name: `${options.namespace}/${options.model}`,
+      label: `${options.namespace} - ${options.model}`,
+      supports: {multiturn: true, media: true, tools: true, systemRole: true, output: ['text', 'json']},
+    },
+    async (request, streamingCallback?: (chunk: GenerateResponseChunkData) => void): Promise<GenerateResponseData> => {
+      const stream = !!streamingCallback;
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? {Authorization: `Bearer ${options.apiKey}`} : {}),
+        },
+        body: JSON.stringify(buildRequestBody(request, options.model, stream)),
+        // Set by the flow's caller (see src/ai/abort.ts); cancels the request when the client goes away.
+        signal: abortSignalFromContext(ai.currentContext()),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`${logTag} Request failed with status ${response.status}: ${errorBody}`);
+        // status and retryAfter let src/ai/model-fallback.ts decide whether to retry or fall back.
+        throw Object.assign(new Error(`${response.status} ${response.statusText}: ${errorBody.substring(0, 200)}`), {
+          status: response.status,
+          retryAfter: response.headers.get('retry-after') ?? undefined,
+        });
+      }
+
+      if (!stream) {
+        const data = await response.json();
+        const choice = data.choices?.[0];
+        return {
+          message: {role: 'model', content: toGenkitParts(choice?.message?.content, choice?.message?.tool_calls ?? [])},
+          finishReason: toFinishReason(choice?.finish_reason),
+          usage: {inputTokens: data.usage?.prompt_tokens, outputTokens: data.usage?.completion_tokens},
+        };
+      }
+
+      let text = '';
+      let finishReason: string | null = null;
+      let usage: any;
+      const toolCalls: OpenAIToolCall[] = [];
+      await readServerSentEvents(response, (data) => {
+        if (data.usage) usage = data.usage;
+        const choice = data.choices?.[0];
+        if (!choice) return;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+        const delta = choice.delta ?? {};
+        if (delta.content) {
+          text += delta.content;
+          streamingCallback!({index: 0, content: [{text: delta.content}]});
+        }
+        // Tool call deltas arrive in fragments keyed by index.
+        for (const callDelta of delta.tool_calls ?? []) {
+          const call = (toolCalls[callDelta.index ?? 0] ??= {id: '', type: 'function', function: {name: '', arguments: ''}});
+          if (callDelta.id) call.id = callDelta.id;
+          if (callDelta.function?.name) call.function.name += callDelta.function.name;
+          if (callDelta.function?.arguments) call.function.arguments += callDelta.function.arguments;
+        }
+      });
+
+      return {
+        message: {role: 'model', content: toGenkitParts(text, toolCalls.filter(Boolean))},
+        finishReason: toFinishReason(finishReason),
+        usage: {inputTokens: usage?.prompt_tokens, outputTokens: usage?.completion_tokens},
+      };
+    }
+  );
+}
+
+export const openAICompatibleProvider: ModelProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+  create: () => {
+    const baseUrl = process.env.OPENAI_COMPAT_BASE_URL || 'https://api.openai.com/v1';
+    const model = process.env.OPENAI_COMPAT_MODEL || 'gpt-4o-mini';
+    return {
+      plugin: genkitPlugin('openai-compatible', async (ai) => {
+        defineOpenAICompatibleModel(ai, {
+          namespace: 'openai-compatible',
+          baseUrl,
+          apiKey: process.env.OPENAI_COMPAT_API_KEY,
+          model,
+        });
+      }),
+      defaultModel: `openai-compatible/${model}`,
+    };
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Shared types for the model provider registry.
+ */
+
+import type {GenkitPlugin} from 'genkit/plugin';
+
+export type ModelProviderId = 'googleai' | 'openai-compatible' | 'ollama' | 'mock';
+
+export interface ModelProviderSetup {
+  /** Plugin that registers the provider's models on the Genkit instance. */
+  plugin: GenkitPlugin;
+  /** Fully-qualified Genkit model name used when AI_MODEL is not set. */
+  defaultModel: string;
+  /** Models tried in order when the default model is out of quota or failing; used when AI_FALLBACK_MODELS is not set. */
+  fallbackModels?: string[];
+}
+
+export interface ModelProvider {
+  id: ModelProviderId;
+  label: string;
+  /** Reads the provider's configuration from the environment. Called once at startup. */
+  create: () => ModelProviderSetup;
+}
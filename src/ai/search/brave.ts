@@ -0,0 +1,45 @@
+/**
+ * @fileOverview Search provider backed by the Brave Search web API.
+ * Requires BRAVE_SEARCH_API_KEY.
+ */
+
+import type {SearchProvider, SearchResult} from './types';
+
+const BRAVE_MAX_RESULTS = 20;
+
+export const braveSearchProvider: SearchProvider = {
+  id: 'brave',
+  label: 'Brave Search',
+  search: async (query, options) => {
+    const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+    if (!apiKey) {
+      throw new Error('Brave Search API key (BRAVE_SEARCH_API_KEY) not configured in environment variables.');
+    }
+
+    const params = new URLSearchParams({
+      q: query,
+      count: String(Math.min(options.count, BRAVE_MAX_RESULTS)),
+      search_lang: options.language,
+      country: options.region,
+      safesearch: options.safeSearch,
+    });
+    const searchUrl = `https://api.search.brave.com/res/v1/web/search?${params}`;
+    console.log(`[braveSearchProvider] Fetching from: ${searchUrl}`);
+
+    const response = await fetch(searchUrl, {
+      headers: {Accept: 'application/json', 'X-Subscription-Token': apiKey},
+    });
+    if (!response.ok) {
+      throw new Error(`Brave Search request failed with status ${response.status} (${response.statusText}).`);
+    }
+
+    const searchData = await response.json();
+    return (searchData.web?.results ?? []).slice(0, options.count).map((item: any): SearchResult => ({
+      title: item.title || 'Tanpa Judul',
+      url: item.url,
+      snippet: item.description ?? '',
+      source: item.profile?.name ?? item.meta_url?.hostname ?? new URL(item.url).hostname,
+      publishedAt: item.page_age ?? item.age ?? undefined,
+    }));
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * @fileOverview Offline search provider that answers from a local JSON fixture, for demos and tests.
+ *
+ * Uses the bundled `fixtures/default.json` unless SEARCH_FIXTURE_PATH points to another file with
+ * the same shape: entries are matched when any of their keywords appears in the query, otherwise
+ * the `fallback` results are returned.
+ */
+
+import {promises as fs} from 'fs';
+import {z} from 'genkit';
+import defaultFixture from './fixtures/default.json';
+import {SearchResultSchema, type SearchProvider} from './types';
+
+const SearchFixtureSchema = z.object({
+  entries: z.array(z.object({
+    keywords: z.array(z.string()),
+    results: z.array(SearchResultSchema),
+  })),
+  fallback: z.array(SearchResultSchema).default([]),
+});
+type SearchFixture = z.infer<typeof SearchFixtureSchema>;
+
+let cachedFixture: {path: string | undefined; fixture: SearchFixture} | null = null;
+
+async function loadFixture(): Promise<SearchFixture> {
+  const path = process.env.SEARCH_FIXTURE_PATH;
+  if (cachedFixture && cachedFixture.path === path) return cachedFixture.fixture;
+  const raw = path ? JSON.parse(await fs.readFile(path, 'utf8')) : defaultFixture;
+  const fixture = SearchFixtureSchema.parse(raw);
+  cachedFixture = {path, fixture};
+  return fixture;
+}
+
+export const fixtureSearchProvider: SearchProvider = {
+  id: 'fixture',
+  label: 'Local fixture',
+  search: async (query, options) => {
+    const fixture = await loadFixture();
+    const normalizedQuery = query.toLowerCase();
+    const matched = fixture.entries
+      .filter(entry => entry.keywords.some(keyword => normalizedQuery.includes(keyword.toLowerCase())))
+      .flatMap(entry => entry.results);
+    return (matched.length > 0 ? matched : fixture.fallback).slice(0, options.count);
+  },
+};
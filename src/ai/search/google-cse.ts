@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Search provider backed by the Google Custom Search JSON API.
+ * Requires GOOGLE_API_KEY and GOOGLE_CSE_ID.
+ */
+
+import type {SearchProvider, SearchResult} from './types';
+
+const GOOGLE_CSE_MAX_RESULTS = 10;
+
+export const googleCseSearchProvider: SearchProvider = {
+  id: 'google-cse',
+  label: 'Google Custom Search',
+  search: async (query, options) => {
+    const apiKey = process.env.GOOGLE_API_KEY;
+    const cx = process.env.GOOGLE_CSE_ID;
+    if (!apiKey || !cx) {
+      throw new Error('Google API Key (GOOGLE_API_KEY) or Custom Search Engine ID (GOOGLE_CSE_ID) not configured in environment variables.');
+    }
+
+    const params = new URLSearchParams({
+      key: apiKey,
+      cx,
+      q: query,
+      num: String(Math.min(options.count, GOOGLE_CSE_MAX_RESULTS)),
+      hl: options.language,
+      gl: options.region,
+      // Google CSE only distinguishes between on and off.
+      safe: options.safeSearch === 'off' ? 'off' : 'active',
+    });
+    const searchUrl = `https://www.googleapis.com/customsearch/v1?${params}`;
+    // Redact API key from log
+    console.log(`[googleCseSearchProvider] Fetching from: ${searchUrl.replace(apiKey, 'GOOGLE_API_KEY_REDACTED')}`);
+
+    const response = await fetch(searchUrl);
+    if (!response.ok) {
+      const errorBody = await response.text();
+      let googleErrorMsg = `Google Search API request failed with status ${response.status} (${response.statusText}).`;
+      try {
+        const errorJson = JSON.parse(errorBody);
+        if (errorJson.error && errorJson.error.message) {
+          googleErrorMsg = `Google API error: ${errorJson.error.message}`;
+        }
+      } catch (e) { /* ignore parsing error if not JSON */ }
+      throw new Error(googleErrorMsg);
+    }
+
+    const searchData = await response.json();
+    return (searchData.items ?? []).slice(0, options.count).map((item: any): SearchResult => ({
+      title: item.title || 'Tanpa Judul',
+      url: item.link,
+      snippet: item.snippet ?? '',
+      source: item.displayLink ?? new URL(item.link).hostname,
+      publishedAt: item.pagemap?.metatags?.[0]?.['article:published_time'],
+    }));
+  },
+};
@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Registry of internet search providers used by `searchInternetTool`.
+ *
+ * The provider is selected with the `SEARCH_PROVIDER` environment variable:
+ * - `google-cse` (default) - GOOGLE_API_KEY, GOOGLE_CSE_ID.
+ * - `searxng` - SEARXNG_BASE_URL.
+ * - `brave` - BRAVE_SEARCH_API_KEY.
+ * - `fixture` - local JSON fixture (SEARCH_FIXTURE_PATH optional), works fully offline.
+ *
+ * Result count, language, region and safe-search come from SEARCH_RESULT_COUNT, SEARCH_LANGUAGE,
+ * SEARCH_REGION and SEARCH_SAFE_SEARCH (`off` | `moderate` | `strict`).
+ */
+
+import {braveSearchProvider} from './brave';
+import {fixtureSearchProvider} from './fixture';
+import {googleCseSearchProvider} from './google-cse';
+import {searxngSearchProvider} from './searxng';
+import type {SafeSearchLevel, SearchOptions, SearchProvider, SearchProviderId} from './types';
+
+export * from './types';
+
+export const searchProviders: Record<SearchProviderId, SearchProvider> = {
+  'google-cse': googleCseSearchProvider,
+  searxng: searxngSearchProvider,
+  brave: braveSearchProvider,
+  fixture: fixtureSearchProvider,
+};
+
+export const DEFAULT_SEARCH_PROVIDER_ID: SearchProviderId = 'google-cse';
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  count: 3,
+  language: 'id',
+  region: 'id',
+  safeSearch: 'moderate',
+};
+
+const SAFE_SEARCH_LEVELS: SafeSearchLevel[] = ['off', 'moderate', 'strict'];
+
+function isSearchProviderId(value: string): value is SearchProviderId {
+  return Object.prototype.hasOwnProperty.call(searchProviders, value);
+}
+
+/** Resolves the configured search provider. */
+export function resolveSearchProvider(): SearchProvider {
+  const requestedId = (process.env.SEARCH_PROVIDER || DEFAULT_SEARCH_PROVIDER_ID).trim().toLowerCase();
+  if (!isSearchProviderId(requestedId)) {
+    throw new Error(
+      `Unknown SEARCH_PROVIDER "${requestedId}". Expected one of: ${Object.keys(searchProviders).join(', ')}.`
+    );
+  }
+  return searchProviders[requestedId];
+}
+
+/** Reads search options from the environment, falling back to DEFAULT_SEARCH_OPTIONS. */
+export function resolveSearchOptions(overrides: Partial<SearchOptions> = {}): SearchOptions {
+  const count = Number.parseInt(process.env.SEARCH_RESULT_COUNT ?? '', 10);
+  const safeSearch = process.env.SEARCH_SAFE_SEARCH?.trim().toLowerCase() as SafeSearchLevel | undefined;
+  return {
+    count: Number.isFinite(count) && count > 0 ? count : DEFAULT_SEARCH_OPTIONS.count,
+    language: process.env.SEARCH_LANGUAGE?.trim() || DEFAULT_SEARCH_OPTIONS.language,
+    region: process.env.SEARCH_REGION?.trim() || DEFAULT_SEARCH_OPTIONS.region,
+    safeSearch: safeSearch && SAFE_SEARCH_LEVELS.includes(safeSearch) ? safeSearch : DEFAULT_SEARCH_OPTIONS.safeSearch,
+    ...overrides,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * @fileOverview Search provider backed by a SearXNG instance with the JSON output format enabled.
+ * Requires SEARXNG_BASE_URL.
+ */
+
+import type {SafeSearchLevel, SearchProvider, SearchResult} from './types';
+
+const SAFE_SEARCH_LEVELS: Record<SafeSearchLevel, string> = {off: '0', moderate: '1', strict: '2'};
+
+export const searxngSearchProvider: SearchProvider = {
+  id: 'searxng',
+  label: 'SearXNG',
+  search: async (query, options) => {
+    const baseUrl = process.env.SEARXNG_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('SearXNG base URL (SEARXNG_BASE_URL) not configured in environment variables.');
+    }
+
+    const params = new URLSearchParams({
+      q: query,
+      format: 'json',
+      language: `${options.language}-${options.region.toUpperCase()}`,
+      safesearch: SAFE_SEARCH_LEVELS[options.safeSearch],
+    });
+    const searchUrl = `${baseUrl.replace(/\/+$/, '')}/search?${params}`;
+    console.log(`[searxngSearchProvider] Fetching from: ${searchUrl}`);
+
+    const response = await fetch(searchUrl, {headers: {Accept: 'application/json'}});
+    if (!response.ok) {
+      throw new Error(`SearXNG request failed with status ${response.status} (${response.statusText}).`);
+    }
+
+    const searchData = await response.json();
+    return (searchData.results ?? []).slice(0, options.count).map((item: any): SearchResult => ({
+      title: item.title || 'Tanpa Judul',
+      url: item.url,
+      snippet: item.content ?? '',
+      source: new URL(item.url).hostname,
+      publishedAt: item.publishedDate ?? undefined,
+    }));
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * @fileOverview Shared types for the internet search provider layer.
+ */
+
+import {z} from 'genkit';
+
+export type SearchProviderId = 'google-cse' | 'searxng' | 'brave' | 'fixture';
+
+export type SafeSearchLevel = 'off' | 'moderate' | 'strict';
+
+export interface SearchOptions {
+  /** Maximum number of results to return. */
+  count: number;
+  /** Interface/result language as an ISO 639-1 code, e.g. `id`. */
+  language: string;
+  /** Region as an ISO 3166-1 alpha-2 code, e.g. `id`. */
+  region: string;
+  safeSearch: SafeSearchLevel;
+}
+
+export const SearchResultSchema = z.object({
+  title: z.string().describe('Title of the page.'),
+  url: z.string().describe('URL of the page.'),
+  snippet: z.string().describe('Short excerpt of the page relevant to the query.'),
+  source: z.string().describe('Name or domain of the site that published the page.'),
+  publishedAt: z.string().optional().describe('Publication date of the page (ISO 8601 or as reported by the provider), if known.'),
+});
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+export interface SearchProvider {
+  id: SearchProviderId;
+  label: string;
+  /** Throws when the provider is misconfigured or the request fails. */
+  search: (query: string, options: SearchOptions) => Promise<SearchResult[]>;
+}
@@ -1,6 +1,7 @@
 
 /**
- * @fileOverview A Genkit tool for searching the internet using Google Custom Search API.
+ * @fileOverview A Genkit tool for searching the internet through the configured search provider
+ * (see `src/ai/search`).
  *
  * - searchInternetTool - The AI tool definition.
  * - SearchInternetInputSchema - Zod schema for the tool's input.
@@ -11,6 +12,7 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {resolveSearchOptions, resolveSearchProvider, SearchResultSchema} from '@/ai/search';
 
 export const SearchInternetInputSchema = z.object({
   query: z.string().describe('The search query to use for finding information on the internet.'),
@@ -18,83 +20,44 @@ export const SearchInternetInputSchema = z.object({
 export type SearchInternetInput = z.infer<typeof SearchInternetInputSchema>;
 
 export const SearchInternetOutputSchema = z.object({
-  searchResults: z.string().describe('A summary of the information found on the internet related to the query. This should be presented as a direct answer or summary of findings.'),
+  query: z.string().describe('The query that was searched.'),
+  provider: z.string().describe('The search provider that produced the results.'),
+  results: z.array(SearchResultSchema).describe('The search results, most relevant first. Empty if nothing was found or the search failed.'),
+  error: z.object({
+    code: z.literal('TOOL_FAILED'),
+    message: z.string(),
+  }).optional().describe('Why the search failed, if it did. Present instead of results.'),
 });
 export type SearchInternetOutput = z.infer<typeof SearchInternetOutputSchema>;
 
 export const searchInternetTool = ai.defineTool(
   {
     name: 'searchInternetTool',
-    description: 'Searches Google for real-time information based on a user query. Use this tool if the user explicitly asks to "cari di internet", "search online", "browse the web for", "google", "cari di google", or if their question implies a need for current, up-to-date information that is likely not in your training data (e.g., news, current events, real-time stock prices, today\'s weather).',
+    description: 'Searches the internet for real-time information based on a user query and returns structured results (title, url, snippet, source, publishedAt). Use this tool if the user explicitly asks to "cari di internet", "search online", "browse the web for", "google", "cari di google", or if their question implies a need for current, up-to-date information that is likely not in your training data (e.g., news, current events, real-time stock prices, today\'s weather).',
     inputSchema: SearchInternetInputSchema,
     outputSchema: SearchInternetOutputSchema,
   },
   async (input) => {
     console.log(`[searchInternetTool] Received search query: "${input.query}"`);
-    
-    const apiKey = process.env.GOOGLE_API_KEY;
-    const cx = process.env.GOOGLE_CSE_ID;
-
-    if (!apiKey || !cx) {
-      console.error('[searchInternetTool] Google API Key (GOOGLE_API_KEY) or Custom Search Engine ID (GOOGLE_CSE_ID) not configured in environment variables.');
-      return { searchResults: "Maaf, fitur pencarian internet tidak dikonfigurasi dengan benar. Kunci API Google atau ID Mesin Pencari Kustom tidak tersedia di pengaturan server." };
-    }
-
-    // Get top 3 results, you can adjust 'num' parameter
-    const searchUrl = `https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=${cx}&q=${encodeURIComponent(input.query)}&num=3&hl=id&gl=id`; // Added hl=id and gl=id for Indonesian results
 
+    let providerId = process.env.SEARCH_PROVIDER || 'unknown';
     try {
-      // Redact API key from log
-      const loggedUrl = searchUrl.replace(apiKey, "GOOGLE_API_KEY_REDACTED");
-      console.log(`[searchInternetTool] Fetching from: ${loggedUrl}`);
-      
-      const response = await fetch(searchUrl);
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        console.error(`[searchInternetTool] Google Search API request failed with status ${response.status}: ${errorBody}`);
-        // Try to parse error for more specific message
-        let googleErrorMsg = `Permintaan API Pencarian Google gagal dengan status ${response.status}. (${response.statusText})`;
-        try {
-            const errorJson = JSON.parse(errorBody);
-            if (errorJson.error && errorJson.error.message) {
-                googleErrorMsg = `Kesalahan API Google: ${errorJson.error.message}`;
-            }
-        } catch (e) { /* ignore parsing error if not JSON */ }
-        
-        return { searchResults: `Maaf, terjadi masalah saat menghubungi layanan pencarian Google: ${googleErrorMsg}` };
+      const provider = resolveSearchProvider();
+      providerId = provider.id;
+      const options = resolveSearchOptions();
+      const results = await provider.search(input.query, options);
+
+      if (results.length === 0) {
+        console.log(`[searchInternetTool] No search results found from ${provider.label}.`);
+      } else {
+        console.log(`[searchInternetTool] Returning ${results.length} results from ${provider.label}.`);
       }
-
-      const searchData = await response.json();
-
-      if (!searchData.items || searchData.items.length === 0) {
-        console.log('[searchInternetTool] No search results found from Google.');
-        return { searchResults: `Tidak ada hasil pencarian yang relevan ditemukan di Google untuk "${input.query}".` };
-      }
-
-      const resultsSummary = searchData.items
-        .slice(0, 3) // Ensure we only take up to 3, though API should respect &num=3
-        .map((item: any, index: number) => {
-          let summary = `Hasil ${index + 1}: "${item.title || 'Tanpa Judul'}"`;
-          if (item.snippet) {
-            summary += ` - Cuplikan: ${item.snippet}`;
-          }
-          if (item.link) {
-            summary += ` (Sumber: ${item.link})`;
-          }
-          return summary;
-        })
-        .join('\n\n');
-      
-      const finalSummary = `Berikut adalah ringkasan dari hasil pencarian teratas di Google untuk "${input.query}":\n\n${resultsSummary}`;
-      console.log('[searchInternetTool] Returning summarized search results.');
-      return { searchResults: finalSummary };
+      return { query: input.query, provider: provider.id, results };
 
     } catch (error) {
-      console.error('[searchInternetTool] Error during Google internet search:', error);
+      console.error(`[searchInternetTool] Error during internet search with provider "${providerId}":`, error);
       const errorMessage = error instanceof Error ? error.message : 'Terjadi kesalahan tidak dikenal saat mencari di internet.';
-      // Provide a more generic error to the user for network or unexpected issues
-      return { searchResults: `Maaf, terjadi kesalahan teknis saat mencoba mencari informasi di internet. Detail: ${errorMessage}` };
+      return { query: input.query, provider: providerId, results: [], error: { code: 'TOOL_FAILED' as const, message: errorMessage } };
     }
   }
 );
@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Token, latency and cost accounting for model calls.
+ *
+ * - UsageSchema - Zod schema for the usage reported with a flow result.
+ * - Usage - The TypeScript type for UsageSchema.
+ * - createUsageRecorder - Model middleware that adds up usage over every model call of one
+ *   generate (a tool call means at least two), plus the summary for the flow result.
+ * - estimateCost - Cost of a usage from the price table.
+ *
+ * Prices are per million tokens. The built-in table lists Google AI list prices in USD; set
+ * AI_PRICE_TABLE to a JSON object like `{"googleai/gemini-2.0-flash": {"input": 0.1, "output": 0.4}}`
+ * (merged over the built-in one) and AI_PRICE_CURRENCY to price in another currency.
+ */
+
+import {z} from 'genkit';
+import type {GenerateRequest, GenerateResponseData, ModelMiddleware, Part} from 'genkit/model';
+
+export const UsageSchema = z.object({
+  inputTokens: z.number().describe('Prompt tokens over all model calls, including image tokens.'),
+  outputTokens: z.number().describe('Generated tokens over all model calls.'),
+  totalTokens: z.number(),
+  imageTokens: z.number().describe('Tokens spent on input images. Estimated when the provider does not report them.'),
+  inputImages: z.number().describe('Images sent, counted once per model call. Counted from the request when the provider does not report them.'),
+  toolCalls: z.number().describe('Tool calls the model made, e.g. internet searches.'),
+  modelCalls: z.number().describe('Model requests made, including failed attempts that were retried or fell back to another model; 0 when the answer came from the cache.'),
+  latencyMs: z.number().describe('Time the flow spent answering, including retries and tool calls.'),
+  cost: z.object({
+    amount: z.number(),
+    currency: z.string(),
+  }).optional().describe('Estimated from the price table; unset when the model has no price.'),
+});
+export type Usage = z.infer<typeof UsageSchema>;
+
+interface ModelPrice {
+  input: number; // Per million input tokens
+  output: number; // Per million output tokens
+}
+
+const DEFAULT_PRICE_CURRENCY = 'USD';
+
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'googleai/gemini-2.5-flash-preview-04-17': {input: 0.15, output: 0.6},
+  'googleai/gemini-2.0-flash': {input: 0.1, output: 0.4},
+  'googleai/gemini-2.0-flash-lite': {input: 0.075, output: 0.3},
+  'mock/vision-demo': {input: 0, output: 0},
+};
+
+// Gemini bills a small image as 258 tokens; used when the provider reports no image token count.
+const ESTIMATED_TOKENS_PER_IMAGE = 258;
+
+function resolvePriceTable(): Record<string, ModelPrice> {
+  const configured = process.env.AI_PRICE_TABLE?.trim();
+  if (!configured) return DEFAULT_PRICE_TABLE;
+  try {
+    return {...DEFAULT_PRICE_TABLE, ...JSON.parse(configured)};
+  } catch (error) {
+    console.warn('[usage] AI_PRICE_TABLE is not valid JSON, using the built-in prices:', error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+const priceTable = resolvePriceTable();
+const priceCurrency = process.env.AI_PRICE_CURRENCY?.trim() || DEFAULT_PRICE_CURRENCY;
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): Usage['cost'] {
+  const price = priceTable[model];
+  if (!price) return undefined;
+  return {amount: (inputTokens * price.input + outputTokens * price.output) / 1_000_000, currency: priceCurrency};
+}
+
+const responseParts = (response: GenerateResponseData): Part[] =>
+  response.message?.content ?? response.candidates?.[0]?.message.content ?? [];
+
+// Images in the request, for providers that do not report how many they received.
+const countRequestImages = (request: GenerateRequest): number =>
+  request.messages.flatMap(message => message.content).filter(part => {
+    if (!part.media) return false;
+    const type = part.media.contentType ?? part.media.url.match(/^data:([^;,]+)/)?.[1];
+    return !type || type.startsWith('image/');
+  }).length;
+
+/** One recorder per flow run: pass `middleware` to the prompt call, then `summarize` once it returns. */
+export function createUsageRecorder() {
+  const totals = {inputTokens: 0, outputTokens: 0, totalTokens: 0, imageTokens: 0, inputImages: 0, toolCalls: 0, modelCalls: 0};
+  const startedAt = Date.now();
+
+  const middleware: ModelMiddleware = async (request, next) => {
+    try {
+      const response = await next(request);
+      const usage = response.usage ?? {};
+      const inputImages = usage.inputImages ?? countRequestImages(request);
+      const imageTokens = usage.custom?.inputImageTokens ?? inputImages * ESTIMATED_TOKENS_PER_IMAGE;
+      // A provider without a prompt token count is charged at least for the images it was sent.
+      const inputTokens = usage.inputTokens ?? imageTokens;
+      totals.inputTokens += inputTokens;
+      totals.outputTokens += usage.outputTokens ?? 0;
+      totals.totalTokens += usage.totalTokens ?? inputTokens + (usage.outputTokens ?? 0);
+      totals.inputImages += inputImages;
+      totals.imageTokens += imageTokens;
+      totals.toolCalls += responseParts(response).filter(part => part.toolRequest).length;
+      return response;
+    } finally {
+      // Failed attempts count too: a call that is retried or falls back to another model was still made.
+      totals.modelCalls++;
+    }
+  };
+
+  const summarize = (model: string | undefined): Usage => ({
+    ...totals,
+    latencyMs: Date.now() - startedAt,
+    cost: model ? estimateCost(model, totals.inputTokens, totals.outputTokens) : undefined,
+  });
+
+  return {middleware, summarize};
+}
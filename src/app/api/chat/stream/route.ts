@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { contextualChatWithVisionFlow } from '@/ai/flows/contextual-chat-with-vision';
+import { toFlowError } from '@/ai/flow-errors';
+import { assertSameOriginRequest } from '@/lib/api/auth';
+import { parseChatRequest } from '@/lib/api/chat-request';
+import { apiErrorResponse } from '@/lib/api/errors';
+import { enforceRateLimit } from '@/lib/api/rate-limit';
+
+// The app's own chat endpoint, used by src/lib/chat-stream.ts. Answers stream as server-sent events
+// when the client accepts text/event-stream, and come back as one JSON body otherwise.
+// It takes no API key because the browser cannot keep one secret. Instead it only answers pages of
+// this app, is rate-limited per client and has the public API's size limit. Skipping the cache and
+// picking a prompt version are left to the authenticated /api/v1 API; custom modes stay, since the
+// chat sends them.
+export const runtime = 'nodejs';
+
+const encoder = new TextEncoder();
+const event = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+export async function POST(request: Request) {
+  try {
+    assertSameOriginRequest(request);
+    enforceRateLimit('chat', request.headers);
+    const input = { ...(await parseChatRequest(request)), bypassCache: undefined, promptVersion: undefined };
+    // Aborted when the client disconnects or cancels; the flow then stops calling the model.
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+    const context = { abortSignal: abortController.signal };
+
+    if (!request.headers.get('accept')?.includes('text/event-stream')) {
+      return NextResponse.json(await contextualChatWithVisionFlow(input, { context }));
+    }
+
+    const { stream, output } = contextualChatWithVisionFlow.stream(input, { context });
+    output.catch(() => {}); // Reported through the stream loop below
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of stream) {
+            if (abortController.signal.aborted) break;
+            controller.enqueue(event({ message: chunk }));
+          }
+          const result = await output;
+          if (!abortController.signal.aborted) controller.enqueue(event({ result }));
+        } catch (error) {
+          if (!abortController.signal.aborted) controller.enqueue(event({ error: toFlowError(error) }));
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client's cancel
+          }
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+    return new Response(body, {
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache, no-transform' },
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { contextualChatWithVisionFlow } from '@/ai/flows/contextual-chat-with-vision';
+import { authenticateApiRequest } from '@/lib/api/auth';
+import { requestsFreshAnswer } from '@/lib/api/chat-request';
+import { flowErrorToApiError } from '@/lib/api/errors';
+import {
+  OPENAI_COMPAT_MODEL_ID,
+  openAIErrorResponse,
+  parseChatCompletionRequest,
+  toChatCompletion,
+  toChatCompletionStream,
+  toFlowInput,
+} from '@/lib/api/openai-compat';
+
+// OpenAI-compatible adapter over the vision flow: clients only need the base URL /api/v1.
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    authenticateApiRequest(request);
+    const body = await parseChatCompletionRequest(request);
+    const input = { ...toFlowInput(body), bypassCache: requestsFreshAnswer(request) };
+    const model = body.model ?? OPENAI_COMPAT_MODEL_ID;
+    console.log('[api/v1/chat/completions] Request:', input.question, 'Image present:', !!input.photoDataUri, 'Stream:', !!body.stream);
+
+    // Aborted when the client disconnects or stops reading the stream; the flow then stops calling the model.
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+    const context = { abortSignal: abortController.signal };
+
+    if (!body.stream) {
+      const output = await contextualChatWithVisionFlow(input, { context });
+      if (output.status === 'error') throw flowErrorToApiError(output.error);
+      return NextResponse.json(toChatCompletion(output, model));
+    }
+
+    const { stream, output } = contextualChatWithVisionFlow.stream(input, { context });
+    output.catch(() => {}); // Reported through the stream
+    return new Response(toChatCompletionStream(stream, output, model, abortController), {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return openAIErrorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { contextualChatWithVisionFlow } from '@/ai/flows/contextual-chat-with-vision';
+import { authenticateApiRequest } from '@/lib/api/auth';
+import { parseChatRequest } from '@/lib/api/chat-request';
+import { apiErrorResponse, flowErrorToApiError } from '@/lib/api/errors';
+
+// Public REST endpoint for other apps and scripts. Documented at /api/v1/openapi.json.
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    authenticateApiRequest(request);
+    const input = await parseChatRequest(request);
+    console.log('[api/v1/chat] Request:', input.question, 'Image present:', !!input.photoDataUri);
+    // The flow stops calling the model once the client disconnects.
+    const output = await contextualChatWithVisionFlow(input, { context: { abortSignal: request.signal } });
+    if (output.status === 'error') throw flowErrorToApiError(output.error);
+    return NextResponse.json(output);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
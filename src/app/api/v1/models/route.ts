@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api/auth';
+import { OPENAI_COMPAT_MODEL_ID, openAIErrorResponse } from '@/lib/api/openai-compat';
+
+// OpenAI-compatible model list; many clients query it before their first chat request.
+export const runtime = 'nodejs';
+
+export function GET(request: Request) {
+  try {
+    authenticateApiRequest(request);
+    return NextResponse.json({
+      object: 'list',
+      data: [{ id: OPENAI_COMPAT_MODEL_ID, object: 'model', created: 0, owned_by: 'visionai' }],
+    });
+  } catch (error) {
+    return openAIErrorResponse(error);
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+// Public, unauthenticated: the OpenAPI document for the /api/v1 routes.
+export const runtime = 'nodejs';
+
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -4,7 +4,11 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import CameraFeed from '@/components/chat/camera-feed';
 import ChatPanel from '@/components/chat/chat-panel';
-import type { CameraFeedRefType } from '@/types';
+import HighlightLegend from '@/components/chat/highlight-legend';
+import SessionSidebar from '@/components/chat/session-sidebar';
+import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { useChatSessions } from '@/hooks/use-chat-sessions';
+import type { CameraFeedRefType, CountedObject, HighlightSelection, HighlightStyle, RegionSelection } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Eye, EyeOff } from 'lucide-react';
 import WelcomeOverlay from '@/components/layout/welcome-overlay'; // Import WelcomeOverlay
@@ -16,6 +20,12 @@ export default function VisionAIChatPage() {
   const cameraFeedRef = useRef<CameraFeedRefType>(null);
   const [showChatBubbles, setShowChatBubbles] = useState<boolean>(true);
   const [showWelcomeOverlay, setShowWelcomeOverlay] = useState<boolean>(true); // State for welcome overlay
+  const [highlightedObjects, setHighlightedObjects] = useState<CountedObject[] | null>(null); // Objects drawn on the camera overlay
+  const [hiddenClasses, setHiddenClasses] = useState<string[]>([]);
+  const [highlightStyle, setHighlightStyle] = useState<HighlightStyle>('circle');
+  const [highlightSelection, setHighlightSelection] = useState<HighlightSelection | null>(null); // Tapped highlight awaiting a follow-up
+  const [regionSelection, setRegionSelection] = useState<RegionSelection | null>(null); // Region of interest being drawn on a frozen frame
+  const chatSessions = useChatSessions();
 
   useEffect(() => {
     console.log(`Page: isCameraActive: ${isCameraActive}, isCameraProcessing: ${isCameraProcessing}, isAiAnalyzing: ${isAiAnalyzing}`);
@@ -49,6 +59,14 @@ export default function VisionAIChatPage() {
     setShowChatBubbles(prev => !prev);
   }, []);
 
+  const handleToggleHighlightClass = useCallback((name: string) => {
+    setHiddenClasses(prev => prev.includes(name) ? prev.filter(hidden => hidden !== name) : [...prev, name]);
+  }, []);
+
+  const handleHighlightSelectionHandled = useCallback(() => {
+    setHighlightSelection(null);
+  }, []);
+
   const handleStartApp = useCallback(() => {
     setShowWelcomeOverlay(false);
   }, []);
@@ -59,52 +77,92 @@ export default function VisionAIChatPage() {
   }
 
   return (
-    <div className="relative min-h-screen bg-background font-sans overflow-hidden"> {/* Added overflow-hidden to body container */}
-      <div className="fixed inset-0 z-0">
-        <CameraFeed 
-          ref={cameraFeedRef}
-          isCameraActive={isCameraActive}
-          onStarted={handleCameraStarted}
-          onStopped={handleCameraStopped}
-          onErrorOccurred={handleCameraError}
-          isCameraProcessing={isCameraProcessing} // Pass down the processing state
-        />
-      </div>
+    <SidebarProvider defaultOpen={false}>
+      <SessionSidebar
+        sessions={chatSessions.sessions}
+        activeSessionId={chatSessions.activeSessionId}
+        onCreate={chatSessions.createSession}
+        onSelect={chatSessions.selectSession}
+        onRename={chatSessions.renameSession}
+        onDelete={chatSessions.deleteSession}
+        onImport={chatSessions.importSession}
+        disabled={isAiAnalyzing}
+      />
+      <div className="relative min-h-screen w-full bg-background font-sans overflow-hidden"> {/* Added overflow-hidden to body container */}
+        <div className="fixed inset-0 z-0">
+          <CameraFeed 
+            ref={cameraFeedRef}
+            isCameraActive={isCameraActive}
+            onStarted={handleCameraStarted}
+            onStopped={handleCameraStopped}
+            onErrorOccurred={handleCameraError}
+            isCameraProcessing={isCameraProcessing} // Pass down the processing state
+            hiddenClasses={hiddenClasses}
+            highlightStyle={highlightStyle}
+            onHighlightsChange={setHighlightedObjects}
+            onHighlightSelect={setHighlightSelection}
+            onRegionSelectionChange={setRegionSelection}
+          />
+        </div>
 
-      <div className="fixed top-4 left-4 z-20">
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={handleToggleChatBubbles}
-          className="rounded-full bg-black/30 hover:bg-black/50 text-white border-white/30"
-          aria-label={showChatBubbles ? "Sembunyikan Obrolan" : "Tampilkan Obrolan"}
-        >
-          {showChatBubbles ? <EyeOff size={20} /> : <Eye size={20} />}
-        </Button>
-      </div>
+        {highlightedObjects && (
+          <div className="fixed top-16 left-4 z-20">
+            <HighlightLegend
+              objects={highlightedObjects}
+              hiddenClasses={hiddenClasses}
+              onToggleClass={handleToggleHighlightClass}
+              highlightStyle={highlightStyle}
+              onHighlightStyleChange={setHighlightStyle}
+            />
+          </div>
+        )}
+
+        <div className="fixed top-4 left-4 z-20">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleToggleChatBubbles}
+            className="rounded-full bg-black/30 hover:bg-black/50 text-white border-white/30"
+            aria-label={showChatBubbles ? "Sembunyikan Obrolan" : "Tampilkan Obrolan"}
+          >
+            {showChatBubbles ? <EyeOff size={20} /> : <Eye size={20} />}
+          </Button>
+          <SidebarTrigger
+            variant="outline"
+            className="ml-2 h-10 w-10 rounded-full bg-black/30 hover:bg-black/50 text-white border-white/30"
+            aria-label="Riwayat percakapan"
+          />
+        </div>
 
-      {/* Watermark */}
-      <div className="fixed top-2 right-4 z-20 text-right pointer-events-none">
-        <h1 className="text-2xl font-bold text-white/80 drop-shadow-md">VisionAI</h1>
-        <p className="text-xs text-white/70 drop-shadow-sm mt-[-0.15rem]">Farqonzero.dev</p>
-      </div>
+        {/* Watermark */}
+        <div className="fixed top-2 right-4 z-20 text-right pointer-events-none">
+          <h1 className="text-2xl font-bold text-white/80 drop-shadow-md">VisionAI</h1>
+          <p className="text-xs text-white/70 drop-shadow-sm mt-[-0.15rem]">Farqonzero.dev</p>
+        </div>
 
 
-      {/* Modified wrapper for ChatPanel to allow it to fill more screen height */}
-      <div className="fixed inset-x-0 top-0 bottom-0 p-2 sm:p-4 z-10 flex flex-col pointer-events-none"> {/* Added pointer-events-none to allow interaction with elements behind if chat panel is mostly transparent */}
-        <div className="max-w-2xl mx-auto w-full flex flex-col h-full"> {/* This container allows ChatPanel to use h-full */}
-          <ChatPanel 
-            cameraFeedRef={cameraFeedRef}
-            isCameraActive={isCameraActive} 
-            isCameraProcessing={isCameraProcessing}
-            onToggleCamera={handleToggleCamera}
-            isAiAnalyzing={isAiAnalyzing}
-            setIsAiAnalyzing={setIsAiAnalyzing}
-            showChatBubbles={showChatBubbles}
-            className="h-full pointer-events-auto" // Added pointer-events-auto to ChatPanel itself
-          />
+        {/* Modified wrapper for ChatPanel to allow it to fill more screen height */}
+        <div className="fixed inset-x-0 top-0 bottom-0 p-2 sm:p-4 z-10 flex flex-col pointer-events-none"> {/* Added pointer-events-none to allow interaction with elements behind if chat panel is mostly transparent */}
+          <div className="max-w-2xl mx-auto w-full flex flex-col h-full"> {/* This container allows ChatPanel to use h-full */}
+            <ChatPanel 
+              cameraFeedRef={cameraFeedRef}
+              isCameraActive={isCameraActive} 
+              isCameraProcessing={isCameraProcessing}
+              onToggleCamera={handleToggleCamera}
+              isAiAnalyzing={isAiAnalyzing}
+              setIsAiAnalyzing={setIsAiAnalyzing}
+              showChatBubbles={showChatBubbles}
+              highlightSelection={highlightSelection}
+              onHighlightSelectionHandled={handleHighlightSelectionHandled}
+              regionSelection={regionSelection}
+              sessionId={chatSessions.activeSessionId}
+              onSessionSaved={chatSessions.refresh}
+              sessionTitle={chatSessions.sessions.find(session => session.id === chatSessions.activeSessionId)?.title}
+              className="h-full pointer-events-auto" // Added pointer-events-auto to ChatPanel itself
+            />
+          </div>
         </div>
       </div>
-    </div>
+    </SidebarProvider>
   );
 }
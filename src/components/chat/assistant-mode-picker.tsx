@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, type FC, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronDown, Pencil, Plus, Trash2, UserCog } from 'lucide-react';
+import { isBuiltInAssistantModeId } from '@/lib/assistant-modes';
+import type { CustomAssistantModeDraft } from '@/hooks/use-assistant-modes';
+import type { AssistantMode, ObjectCountingMode } from '@/types';
+
+const COUNTING_OPTIONS: { value: ObjectCountingMode; label: string }[] = [
+  { value: 'onRequest', label: 'Jika diminta' },
+  { value: 'always', label: 'Selalu' },
+  { value: 'never', label: 'Tidak pernah' },
+];
+
+const EMPTY_DRAFT: CustomAssistantModeDraft = {
+  label: '',
+  description: '',
+  instructions: '',
+  tools: [],
+  countObjects: 'onRequest',
+  tts: { enabled: true, rate: 1 },
+};
+
+interface AssistantModePickerProps {
+  modes: AssistantMode[];
+  activeMode: AssistantMode;
+  onSelectMode: (id: string) => void;
+  onSaveCustomMode: (draft: CustomAssistantModeDraft) => AssistantMode;
+  onDeleteCustomMode: (id: string) => void;
+  disabled?: boolean;
+}
+
+const AssistantModePicker: FC<AssistantModePickerProps> = ({
+  modes,
+  activeMode,
+  onSelectMode,
+  onSaveCustomMode,
+  onDeleteCustomMode,
+  disabled,
+}) => {
+  const [draft, setDraft] = useState<CustomAssistantModeDraft | null>(null); // Set while the editor is open
+  const isActiveCustom = !isBuiltInAssistantModeId(activeMode.id);
+  const customModes = modes.filter(mode => !isBuiltInAssistantModeId(mode.id));
+
+  const updateDraft = (patch: Partial<CustomAssistantModeDraft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft?.label.trim() || !draft.instructions.trim()) return;
+    const saved = onSaveCustomMode(draft);
+    onSelectMode(saved.id);
+    setDraft(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 max-w-[16rem] gap-1 rounded-full bg-black/30 px-3 text-xs text-white hover:bg-black/50 hover:text-white"
+            disabled={disabled}
+            title={activeMode.description}
+            aria-label={`Mode asisten: ${activeMode.label}`}
+          >
+            <UserCog className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{activeMode.label}</span>
+            <ChevronDown className="h-3 w-3 shrink-0 opacity-70" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel className="text-xs font-normal opacity-70">Mode asisten</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={activeMode.id} onValueChange={onSelectMode}>
+            {modes.map(mode => (
+              <DropdownMenuRadioItem key={mode.id} value={mode.id} className="flex-col items-start">
+                <span>{mode.label}</span>
+                {mode.description && <span className="text-xs opacity-60">{mode.description}</span>}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setDraft(EMPTY_DRAFT)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Buat mode kustom...
+          </DropdownMenuItem>
+          {isActiveCustom && (
+            <>
+              <DropdownMenuItem onSelect={() => setDraft(activeMode)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Ubah &quot;{activeMode.label}&quot;...
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onSelect={() => onDeleteCustomMode(activeMode.id)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Hapus &quot;{activeMode.label}&quot;
+              </DropdownMenuItem>
+            </>
+          )}
+          {customModes.length === 0 && (
+            <DropdownMenuLabel className="text-xs font-normal opacity-60">
+              Mode kustom berisi instruksi, alat, dan pengaturan suara Anda sendiri.
+            </DropdownMenuLabel>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{draft?.id ? 'Ubah mode kustom' : 'Mode kustom baru'}</DialogTitle>
+              <DialogDescription>
+                Instruksi ditambahkan ke prompt asisten untuk setiap pertanyaan selama mode ini aktif.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="mode-label">Nama</Label>
+              <Input
+                id="mode-label"
+                value={draft?.label ?? ''}
+                onChange={(e) => updateDraft({ label: e.target.value })}
+                placeholder="Misalnya: Asisten resep"
+                maxLength={40}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mode-description">Deskripsi singkat</Label>
+              <Input
+                id="mode-description"
+                value={draft?.description ?? ''}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                maxLength={80}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mode-instructions">Instruksi</Label>
+              <Textarea
+                id="mode-instructions"
+                value={draft?.instructions ?? ''}
+                onChange={(e) => updateDraft({ instructions: e.target.value })}
+                placeholder="Anda membantu pengguna memasak. Kenali bahan di gambar dan sarankan resep sederhana."
+                rows={5}
+                maxLength={4000}
+                required
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="mode-search"
+                checked={draft?.tools.includes('searchInternetTool') ?? false}
+                onCheckedChange={(checked) => updateDraft({ tools: checked === true ? ['searchInternetTool'] : [] })}
+              />
+              <Label htmlFor="mode-search">Boleh mencari di internet</Label>
+            </div>
+            <div className="space-y-2">
+              <Label>Hitung dan tandai objek</Label>
+              <Select
+                value={draft?.countObjects ?? 'onRequest'}
+                onValueChange={(value) => updateDraft({ countObjects: value as ObjectCountingMode })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="mode-tts">Bacakan jawaban</Label>
+              <Switch
+                id="mode-tts"
+                checked={draft?.tts.enabled ?? true}
+                onCheckedChange={(enabled) => draft && updateDraft({ tts: { ...draft.tts, enabled } })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Kecepatan suara: {(draft?.tts.rate ?? 1).toFixed(2)}×</Label>
+              <Slider
+                min={0.5}
+                max={2}
+                step={0.05}
+                value={[draft?.tts.rate ?? 1]}
+                onValueChange={([rate]) => draft && updateDraft({ tts: { ...draft.tts, rate } })}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDraft(null)}>Batal</Button>
+              <Button type="submit" disabled={!draft?.label.trim() || !draft?.instructions.trim()}>Simpan</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AssistantModePicker;
@@ -2,10 +2,21 @@
 'use client';
 
 import { useState, useRef, useEffect, type FC, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { Aperture, AlertCircle, VideoOff as VideoOffIconLucide } from 'lucide-react';
+import { Aperture, AlertCircle, AlertTriangle, VideoOff as VideoOffIconLucide, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
-import type { CameraFeedRefType, CountedObject } from '@/types'; // Added CountedObject
+import type { AttachedImage, BoundingBox, CameraFeedRefType, CountedObject, EncodedFrame, FrameEncodingOptions, FrameQualityScores, HighlightSelection, HighlightStyle, QualityCheckedFrame, RegionSelection } from '@/types'; // Added CountedObject
+import RegionSelector from './region-selector';
+import { highlightColorForIndex } from '@/lib/highlight-colors';
+import { computeContainRect, computeCoverRect, type CoverRect } from '@/lib/geometry';
+import { describeSentImage, encodeFrame, FRAME_ENCODING_PRESETS } from '@/lib/frame-encoding';
+import { analyzeFrameQuality, frameQualityWarning } from '@/lib/frame-quality';
+import { sceneSignature } from '@/lib/scene-change';
+
+const NO_HIDDEN_CLASSES: string[] = [];
+const BURST_FRAME_COUNT = 4; // A blurry capture waits for up to three more frames...
+const BURST_INTERVAL_MS = 120; // ...this far apart, keeping the sharpest
+const QUALITY_WARNING_MS = 4000;
 
 interface CameraFeedProps {
   isCameraActive: boolean;
@@ -13,6 +24,11 @@ interface CameraFeedProps {
   onStopped?: () => void;
   onErrorOccurred?: (errorMessage: string) => void;
   isCameraProcessing?: boolean;
+  hiddenClasses?: string[]; // Names of counted-object classes whose highlights are hidden
+  highlightStyle?: HighlightStyle;
+  onHighlightsChange?: (objects: CountedObject[] | null) => void; // Called whenever drawHighlights is called
+  onHighlightSelect?: (selection: HighlightSelection) => void; // Called when the user taps a highlighted instance
+  onRegionSelectionChange?: (selection: RegionSelection | null) => void; // Called while a region of interest is being selected
 }
 
 const CameraFeed = forwardRef<CameraFeedRefType, CameraFeedProps>(({
@@ -21,40 +37,299 @@ const CameraFeed = forwardRef<CameraFeedRefType, CameraFeedProps>(({
   onStopped,
   onErrorOccurred,
   isCameraProcessing,
+  hiddenClasses = NO_HIDDEN_CLASSES,
+  highlightStyle = 'circle',
+  onHighlightsChange,
+  onHighlightSelect,
+  onRegionSelectionChange,
 }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null); // Ref for canvas overlay
+  const highlightedObjectsRef = useRef<CountedObject[] | null>(null); // Objects currently drawn on the overlay
+  const highlightSourceFrameRef = useRef<string | undefined>(undefined); // Frame the current highlights were computed from
+  const drawGeometryRef = useRef<CoverRect | null>(null);
+  const [hasHighlights, setHasHighlights] = useState<boolean>(false);
+  const [selectedInstance, setSelectedInstance] = useState<{ objectIndex: number; instanceIndex: number } | null>(null);
+  const [regionFrame, setRegionFrame] = useState<EncodedFrame | null>(null); // Frozen frame while selecting a region
+  const [region, setRegion] = useState<BoundingBox | null>(null);
+  const [includeFullFrame, setIncludeFullFrame] = useState<boolean>(false);
+  const [stillImage, setStillImage] = useState<AttachedImage | null>(null); // Uploaded image shown instead of the live video
   const [internalStream, setInternalStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const { toast } = useToast();
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | undefined>(undefined);
-
-  useImperativeHandle(ref, () => ({
-    captureCurrentFrame: (): string | null => {
-      if (videoRef.current && internalStream && videoRef.current.readyState >= videoRef.current.HAVE_CURRENT_DATA) {
-        const videoElement = videoRef.current;
-        if (videoElement.videoWidth === 0 || videoElement.videoHeight === 0) {
-          console.warn("CameraFeed: Capture - video dimensions are zero. Skipping frame.");
-          return null;
+  const [qualityWarning, setQualityWarning] = useState<string | null>(null); // e.g. "Tahan kamera tetap stabil" after a poor capture
+  const qualityWarningTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const renderHighlights = useCallback(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    const objects = highlightedObjectsRef.current;
+    // Highlights belong to the uploaded image while one is shown, otherwise to the video.
+    const sourceWidth = stillImage ? stillImage.width : video?.videoWidth;
+    const sourceHeight = stillImage ? stillImage.height : video?.videoHeight;
+
+    if (!canvas || !sourceWidth || !sourceHeight) {
+      if (canvas) {
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          canvas.width = canvas.clientWidth; // Match display size for clearing
+          canvas.height = canvas.clientHeight;
+          ctx.clearRect(0, 0, canvas.width, canvas.height);
         }
-        console.log(`CameraFeed: Capturing frame on demand. Dimensions: ${videoElement.videoWidth}x${videoElement.videoHeight}`);
-        const canvas = document.createElement('canvas');
-        canvas.width = videoElement.videoWidth;
-        canvas.height = videoElement.videoHeight;
-        const context = canvas.getContext('2d');
-        if (context) {
-          context.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
-          const dataUri = canvas.toDataURL('image/jpeg', 0.85);
-          return dataUri;
-        } else {
-           console.error("CameraFeed: Capture - Could not get canvas context.");
-           return null;
+      }
+      if (!objects) return; 
+      console.warn("CameraFeed: Canvas or video not ready for drawing highlights.");
+      return;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      console.error("CameraFeed: Could not get canvas 2D context.");
+      return;
+    }
+
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+
+    const canWidth = canvas.width;
+    const canHeight = canvas.height;
+
+    // The video uses object-cover and the still image object-contain, so map normalized coordinates through the same fit.
+    const geometry = stillImage
+      ? computeContainRect(sourceWidth, sourceHeight, canWidth, canHeight)
+      : computeCoverRect(sourceWidth, sourceHeight, canWidth, canHeight);
+    const { drawX, drawY, drawWidth, drawHeight } = geometry;
+    drawGeometryRef.current = geometry;
+    ctx.clearRect(0, 0, canWidth, canHeight);
+
+    if (objects && objects.length > 0) {
+      const baseLineWidth = Math.max(2, Math.min(canWidth, canHeight) * 0.007); // Slightly thicker line
+      const fontSize = Math.max(11, Math.round(Math.min(canWidth, canHeight) * 0.028));
+      ctx.font = `600 ${fontSize}px sans-serif`;
+      ctx.textBaseline = 'top';
+
+      objects.forEach((obj, objectIndex) => {
+        if (hiddenClasses.includes(obj.name)) return;
+        const color = highlightColorForIndex(objectIndex);
+        ctx.strokeStyle = color;
+
+        obj.instances.forEach((instance, instanceIndex) => {
+          const { x, y, width, height } = instance.boundingBox;
+          const isSelected = selectedInstance?.objectIndex === objectIndex && selectedInstance.instanceIndex === instanceIndex;
+          ctx.lineWidth = isSelected ? baseLineWidth * 2.5 : baseLineWidth;
+
+          const rectX = drawX + (x * drawWidth);
+          const rectY = drawY + (y * drawHeight);
+          const rectWidth = width * drawWidth;
+          const rectHeight = height * drawHeight;
+          
+          if (isSelected) {
+            // Emphasize the tapped instance with a translucent fill in its class color.
+            ctx.globalAlpha = 0.25;
+            ctx.fillStyle = color;
+            ctx.fillRect(rectX, rectY, rectWidth, rectHeight);
+            ctx.globalAlpha = 1;
+          }
+
+          if (highlightStyle === 'rectangle' || isSelected) {
+            ctx.strokeRect(rectX, rectY, rectWidth, rectHeight);
+          } else {
+            const centerX = rectX + rectWidth / 2;
+            const centerY = rectY + rectHeight / 2;
+            const radius = (Math.min(rectWidth, rectHeight) / 2) * 0.9; // Circle radius based on smaller dimension
+
+            if (radius > ctx.lineWidth / 2) { // Ensure radius is large enough to be visible
+              ctx.beginPath();
+              ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+              ctx.stroke();
+            }
+          }
+
+          // Label above the box (or inside it when there is no room above), e.g. "apel #2"
+          const label = `${obj.name} #${instanceIndex + 1}`;
+          const padding = Math.round(fontSize * 0.3);
+          const labelWidth = ctx.measureText(label).width + padding * 2;
+          const labelHeight = fontSize + padding * 2;
+          const labelX = Math.min(Math.max(rectX, 0), canWidth - labelWidth);
+          const labelY = rectY - labelHeight >= 0 ? rectY - labelHeight : rectY;
+          ctx.fillStyle = color;
+          ctx.fillRect(labelX, labelY, labelWidth, labelHeight);
+          ctx.fillStyle = '#0f172a';
+          ctx.fillText(label, labelX + padding, labelY + padding);
+        });
+      });
+    }
+  }, [hiddenClasses, highlightStyle, selectedInstance, stillImage]);
+
+  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    const objects = highlightedObjectsRef.current;
+    const geometry = drawGeometryRef.current;
+    if (!objects || !geometry || !onHighlightSelect) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const pointX = (event.clientX - rect.left - geometry.drawX) / geometry.drawWidth;
+    const pointY = (event.clientY - rect.top - geometry.drawY) / geometry.drawHeight;
+
+    // Prefer the smallest box under the pointer so nested objects stay reachable.
+    let objectIndex = -1, instanceIndex = -1, smallestArea = Infinity;
+    for (let i = 0; i < objects.length; i++) {
+      if (hiddenClasses.includes(objects[i].name)) continue;
+      for (let j = 0; j < objects[i].instances.length; j++) {
+        const { x, y, width, height } = objects[i].instances[j].boundingBox;
+        const area = width * height;
+        if (pointX >= x && pointX <= x + width && pointY >= y && pointY <= y + height && area < smallestArea) {
+          objectIndex = i;
+          instanceIndex = j;
+          smallestArea = area;
         }
       }
-      console.log("CameraFeed: Capture - Camera not ready, stream not available, or video data not loaded.");
+    }
+    if (objectIndex === -1) return;
+
+    const obj = objects[objectIndex];
+    console.log(`CameraFeed: Highlight selected: ${obj.name} #${instanceIndex + 1}`);
+    setSelectedInstance({ objectIndex, instanceIndex });
+    onHighlightSelect({
+      label: `${obj.name} #${instanceIndex + 1}`,
+      objectName: obj.name,
+      instanceIndex,
+      boundingBox: obj.instances[instanceIndex].boundingBox,
+      sourceFrameDataUri: highlightSourceFrameRef.current,
+    });
+  }, [hiddenClasses, onHighlightSelect]);
+
+  useEffect(() => {
+    // Redraw the current highlights when the visible classes or the style change.
+    renderHighlights();
+  }, [renderHighlights]);
+
+  const readyVideo = useCallback((): HTMLVideoElement | null => {
+    if (videoRef.current && internalStream && videoRef.current.readyState >= videoRef.current.HAVE_CURRENT_DATA) {
+      if (videoRef.current.videoWidth === 0 || videoRef.current.videoHeight === 0) {
+        console.warn("CameraFeed: Capture - video dimensions are zero. Skipping frame.");
+        return null;
+      }
+      return videoRef.current;
+    }
+    console.log("CameraFeed: Capture - Camera not ready, stream not available, or video data not loaded.");
+    return null;
+  }, [internalStream]);
+
+  const captureVideoFrame = useCallback((encoding?: FrameEncodingOptions): EncodedFrame | null => {
+    const videoElement = readyVideo();
+    if (videoElement) {
+      try {
+        const frame = encodeFrame(videoElement, videoElement.videoWidth, videoElement.videoHeight, encoding);
+        console.log(`CameraFeed: Captured ${videoElement.videoWidth}x${videoElement.videoHeight} frame as ${describeSentImage(frame)} (quality ${frame.quality}).`);
+        return frame;
+      } catch (captureError) {
+        console.error("CameraFeed: Capture - Could not encode the frame:", captureError);
+        return null;
+      }
+    }
+    return null;
+  }, [readyVideo]);
+
+  // Copies the current video frame at encoding size, so a burst can keep its sharpest frame.
+  const snapshotScoredFrame = useCallback((maxDimension: number): { canvas: HTMLCanvasElement; frameQuality: FrameQualityScores } | null => {
+    const videoElement = readyVideo();
+    if (!videoElement) return null;
+    const scale = Math.min(1, maxDimension / Math.max(videoElement.videoWidth, videoElement.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(videoElement.videoWidth * scale));
+    canvas.height = Math.max(1, Math.round(videoElement.videoHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      console.error("CameraFeed: Capture - Could not get canvas context.");
       return null;
+    }
+    context.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+    return { canvas, frameQuality: analyzeFrameQuality(canvas, canvas.width, canvas.height) };
+  }, [readyVideo]);
+
+  const showQualityWarning = useCallback((warning: string | null) => {
+    if (qualityWarningTimeoutRef.current) clearTimeout(qualityWarningTimeoutRef.current);
+    setQualityWarning(warning);
+    qualityWarningTimeoutRef.current = warning ? setTimeout(() => setQualityWarning(null), QUALITY_WARNING_MS) : null;
+  }, []);
+
+  useEffect(() => () => {
+    if (qualityWarningTimeoutRef.current) clearTimeout(qualityWarningTimeoutRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!onRegionSelectionChange) return;
+    onRegionSelectionChange(regionFrame ? { frameDataUri: regionFrame.dataUri, region, includeFullFrame } : null);
+  }, [regionFrame, region, includeFullFrame, onRegionSelectionChange]);
+
+  useEffect(() => {
+    // A frozen frame makes no sense once the camera is off; an uploaded image gives way once it is turned on.
+    if (!isCameraActive) {
+      setRegionFrame(null);
+      setRegion(null);
+    } else {
+      setStillImage(null);
+    }
+  }, [isCameraActive]);
+
+  useImperativeHandle(ref, () => ({
+    captureCurrentFrame: (encoding?: FrameEncodingOptions): EncodedFrame | null => {
+      // While a region is being selected, the frozen frame is what the user sees.
+      if (regionFrame) return regionFrame;
+      return captureVideoFrame(encoding);
+    },
+    captureSteadyFrame: async (encoding = FRAME_ENCODING_PRESETS.standard): Promise<QualityCheckedFrame | null> => {
+      if (regionFrame) return regionFrame;
+      let best = snapshotScoredFrame(encoding.maxDimension);
+      // Only blur is worth waiting for; darkness and glare do not change within a burst.
+      for (let shot = 1; best && best.frameQuality.issues.includes('blurry') && shot < BURST_FRAME_COUNT; shot++) {
+        await new Promise(resolve => setTimeout(resolve, BURST_INTERVAL_MS));
+        const next = snapshotScoredFrame(encoding.maxDimension);
+        if (next && next.frameQuality.sharpness > best.frameQuality.sharpness) best = next;
+      }
+      if (!best) return null;
+      const { canvas, frameQuality } = best;
+      showQualityWarning(frameQualityWarning(frameQuality));
+      try {
+        const frame = encodeFrame(canvas, canvas.width, canvas.height, encoding);
+        console.log(`CameraFeed: Captured steady frame as ${describeSentImage(frame)}. Quality score ${frameQuality.score}, issues: ${frameQuality.issues.join(', ') || 'none'}.`);
+        return { ...frame, frameQuality };
+      } catch (captureError) {
+        console.error("CameraFeed: Capture - Could not encode the frame:", captureError);
+        return null;
+      }
+    },
+    sampleSceneSignature: (): Uint8Array | null => {
+      // Not while a frozen frame or an uploaded image is shown instead of the video.
+      if (regionFrame || stillImage) return null;
+      const videoElement = videoRef.current;
+      if (!videoElement || !internalStream || videoElement.readyState < videoElement.HAVE_CURRENT_DATA || !videoElement.videoWidth) return null;
+      return sceneSignature(videoElement);
+    },
+    startRegionSelection: (): boolean => {
+      // Regions are cropped out of this frame, so keep enough pixels for a small crop to stay legible.
+      const frame = captureVideoFrame(FRAME_ENCODING_PRESETS.detail);
+      if (!frame) return false;
+      console.log("CameraFeed: Freezing frame for region selection.");
+      setStillImage(null);
+      highlightedObjectsRef.current = null;
+      setHasHighlights(false);
+      renderHighlights();
+      if (onHighlightsChange) onHighlightsChange(null);
+      setRegion(null);
+      setRegionFrame(frame);
+      return true;
+    },
+    cancelRegionSelection: () => {
+      setRegionFrame(null);
+      setRegion(null);
+    },
+    showStillImage: (image: AttachedImage | null) => {
+      console.log(image ? `CameraFeed: Showing uploaded image (${image.width}x${image.height}).` : "CameraFeed: Returning to the live video.");
+      setStillImage(image);
     },
     toggleFacingMode: async () => {
       if (isLoading || isCameraProcessing) {
@@ -68,84 +343,17 @@ const CameraFeed = forwardRef<CameraFeedRefType, CameraFeedProps>(({
         return newMode;
       });
     },
-    drawHighlights: (objects: CountedObject[] | null) => {
-      const canvas = canvasRef.current;
-      const video = videoRef.current;
-
-      if (!canvas || !video || !video.videoWidth || !video.videoHeight) {
-        if (canvas) {
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            canvas.width = canvas.clientWidth; // Match display size for clearing
-            canvas.height = canvas.clientHeight;
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-          }
-        }
-        if (!objects) return; 
-        console.warn("CameraFeed: Canvas or video not ready for drawing highlights.");
-        return;
-      }
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        console.error("CameraFeed: Could not get canvas 2D context.");
-        return;
-      }
-
-      canvas.width = canvas.clientWidth;
-      canvas.height = canvas.clientHeight;
-
-      const vidWidth = video.videoWidth;
-      const vidHeight = video.videoHeight;
-      const canWidth = canvas.width;
-      const canHeight = canvas.height;
-
-      const vidAspectRatio = vidWidth / vidHeight;
-      const canAspectRatio = canWidth / canHeight;
-
-      let drawX = 0, drawY = 0, drawWidth = 0, drawHeight = 0;
-
-      if (vidAspectRatio > canAspectRatio) {
-        drawHeight = canHeight;
-        drawWidth = drawHeight * vidAspectRatio;
-        drawX = (canWidth - drawWidth) / 2;
-        drawY = 0;
-      } else {
-        drawWidth = canWidth;
-        drawHeight = drawWidth / vidAspectRatio;
-        drawY = (canHeight - drawHeight) / 2;
-        drawX = 0;
-      }
-
-      ctx.clearRect(0, 0, canWidth, canHeight);
-
-      if (objects && objects.length > 0) {
-        ctx.strokeStyle = 'rgba(52, 211, 153, 0.9)'; // Emerald-like color for circles
-        ctx.lineWidth = Math.max(2, Math.min(canWidth, canHeight) * 0.007); // Slightly thicker line
-
-        objects.forEach(obj => {
-          obj.instances.forEach((instance) => {
-            const { x, y, width, height } = instance.boundingBox;
-
-            const rectX = drawX + (x * drawWidth);
-            const rectY = drawY + (y * drawHeight);
-            const rectWidth = width * drawWidth;
-            const rectHeight = height * drawHeight;
-            
-            const centerX = rectX + rectWidth / 2;
-            const centerY = rectY + rectHeight / 2;
-            const radius = (Math.min(rectWidth, rectHeight) / 2) * 0.9; // Circle radius based on smaller dimension
-
-            if (radius > ctx.lineWidth / 2) { // Ensure radius is large enough to be visible
-              ctx.beginPath();
-              ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-              ctx.stroke();
-            }
-          });
-        });
-      }
+    drawHighlights: (objects: CountedObject[] | null, sourceFrameDataUri?: string) => {
+      const nextObjects = objects && objects.length > 0 ? objects : null;
+      // Keep the current selection when the same objects are redrawn (e.g. after a follow-up answer).
+      if (nextObjects !== highlightedObjectsRef.current) setSelectedInstance(null);
+      highlightedObjectsRef.current = nextObjects;
+      highlightSourceFrameRef.current = nextObjects ? sourceFrameDataUri : undefined;
+      setHasHighlights(!!nextObjects);
+      renderHighlights();
+      if (onHighlightsChange) onHighlightsChange(highlightedObjectsRef.current);
     },
-  }), [internalStream, isLoading, isCameraProcessing, isCameraActive, videoRef, canvasRef]);
+  }), [internalStream, isLoading, isCameraProcessing, isCameraActive, videoRef, canvasRef, renderHighlights, onHighlightsChange, captureVideoFrame, snapshotScoredFrame, showQualityWarning, regionFrame, stillImage]);
 
   const stopCameraTracks = useCallback((streamToStop: MediaStream | null, reason: string) => {
     if (streamToStop) {
@@ -371,7 +579,7 @@ const CameraFeed = forwardRef<CameraFeedRefType, CameraFeedProps>(({
 
   const showLoadingIndicator = isLoading || (isCameraActive && hasCameraPermission === undefined) || (isCameraActive && hasCameraPermission && !internalStream && !error && !isCameraProcessing);
   const showVideo = isCameraActive && internalStream && !isLoading && hasCameraPermission && !error;
-  const showCameraOffMessage = !isCameraActive && !isLoading && (hasCameraPermission === true || hasCameraPermission === undefined) && !error;
+  const showCameraOffMessage = !isCameraActive && !isLoading && (hasCameraPermission === true || hasCameraPermission === undefined) && !error && !stillImage;
   const showPermissionNeededMessage = hasCameraPermission === false && !isLoading;
   const showErrorAlert = error && !isLoading;
 
@@ -402,11 +610,55 @@ const CameraFeed = forwardRef<CameraFeedRefType, CameraFeedProps>(({
           }
         }}
       />
+      {stillImage && (
+        <>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={stillImage.dataUri} alt={stillImage.name ?? 'Gambar yang diunggah'} className="absolute inset-0 w-full h-full object-contain bg-black" />
+          <button
+            type="button"
+            onClick={() => {
+              setStillImage(null);
+              highlightedObjectsRef.current = null;
+              setHasHighlights(false);
+              if (onHighlightsChange) onHighlightsChange(null);
+            }}
+            className="absolute right-4 top-16 z-10 rounded-full bg-black/60 p-1.5 text-white shadow-md hover:bg-black/80"
+            aria-label="Tutup gambar yang diunggah"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </>
+      )}
       <canvas
         ref={canvasRef}
-        className="absolute top-0 left-0 w-full h-full pointer-events-none"
+        className={`absolute top-0 left-0 w-full h-full ${hasHighlights && onHighlightSelect ? 'cursor-pointer' : 'pointer-events-none'}`}
+        onClick={handleCanvasClick}
         // Initial dimensions will be set on video canPlay or when drawing
       />
+      {regionFrame && showVideo && (
+        <RegionSelector
+          frameDataUri={regionFrame.dataUri}
+          frameWidth={regionFrame.width}
+          frameHeight={regionFrame.height}
+          region={region}
+          onRegionChange={setRegion}
+          includeFullFrame={includeFullFrame}
+          onIncludeFullFrameChange={setIncludeFullFrame}
+          onCancel={() => {
+            setRegionFrame(null);
+            setRegion(null);
+          }}
+        />
+      )}
+
+      {qualityWarning && showVideo && !regionFrame && (
+        <div className="pointer-events-none absolute inset-x-0 top-16 z-10 flex justify-center px-4" role="status" aria-live="polite">
+          <div className="inline-flex items-center gap-2 rounded-full bg-black/70 px-3 py-1.5 text-sm font-medium text-amber-300 shadow-md">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {qualityWarning}
+          </div>
+        </div>
+      )}
 
       {showCameraOffMessage && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/75 text-white p-4">
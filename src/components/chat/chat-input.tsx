@@ -1,20 +1,38 @@
 
 'use client';
 
-import { useState, type FC, type FormEvent, useEffect, useRef }
+import { useState, type FC, type FormEvent, type ClipboardEvent, useEffect, useRef }
 from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Send, Loader2, Video, VideoOff, Mic, MicOff, Volume2, VolumeX, SwitchCamera } from 'lucide-react'; // Added SwitchCamera
+import { Send, Loader2, Video, VideoOff, Mic, MicOff, Volume2, VolumeX, SwitchCamera, Square, Radar, ScanEye, Crop, ImagePlus, X } from 'lucide-react'; // Added SwitchCamera
 import { useToast } from '@/hooks/use-toast';
+import { ACCEPTED_IMAGE_TYPES } from '@/lib/image';
+import type { AttachedImage } from '@/types';
+
+const FILE_INPUT_ACCEPT = [...ACCEPTED_IMAGE_TYPES, '.heic', '.heif'].join(',');
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
   isLoading: boolean; // Combined: AI analysis OR camera hardware processing
+  isResponding: boolean; // Specifically for an in-flight AI response that can be cancelled
+  onCancelResponse: () => void;
   isCameraActive: boolean;
   isCameraProcessing: boolean; // Specifically for camera hardware start/stop
   onToggleCamera: () => void;
   onToggleFacingMode: () => void; // Added prop for toggling facing mode
+  isLiveActive: boolean;
+  onStartLive: (standingQuestion: string) => void;
+  onStopLive: () => void;
+  isSceneWatchActive: boolean;
+  onStartSceneWatch: (question: string) => void; // Empty: the default scene-change question
+  onStopSceneWatch: () => void;
+  isRegionSelecting: boolean; // A frozen frame is shown and the next question is about the selected region
+  onToggleRegionSelection: () => void;
+  attachedImage: AttachedImage | null; // Uploaded image that will be sent instead of a camera frame
+  isAttachingImage: boolean; // An uploaded file is still being normalized
+  onAttachFiles: (files: File[]) => void;
+  onRemoveAttachment: () => void;
   isTtsEnabled: boolean;
   onToggleTts: () => void;
   stopSpeaking: () => void;
@@ -23,10 +41,24 @@ interface ChatInputProps {
 const ChatInput: FC<ChatInputProps> = ({
   onSendMessage,
   isLoading, 
+  isResponding,
+  onCancelResponse,
   isCameraActive,
   isCameraProcessing, 
   onToggleCamera,
   onToggleFacingMode, // Consumed prop
+  isLiveActive,
+  onStartLive,
+  onStopLive,
+  isSceneWatchActive,
+  onStartSceneWatch,
+  onStopSceneWatch,
+  isRegionSelecting,
+  onToggleRegionSelection,
+  attachedImage,
+  isAttachingImage,
+  onAttachFiles,
+  onRemoveAttachment,
   isTtsEnabled,
   onToggleTts,
   stopSpeaking,
@@ -34,6 +66,7 @@ const ChatInput: FC<ChatInputProps> = ({
   const [inputValue, setInputValue] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const speechRecognitionRef = useRef<any>(null); 
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -128,80 +161,218 @@ const ChatInput: FC<ChatInputProps> = ({
     }
   };
   
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return; // Plain text paste
+    e.preventDefault();
+    onAttachFiles(files);
+  };
+
+  const handleLiveClick = () => {
+    if (isLiveActive) {
+      onStopLive();
+      return;
+    }
+    // The text in the input becomes the standing question for live mode.
+    if (!inputValue.trim()) {
+      toast({ title: "Pertanyaan Tetap Diperlukan", description: "Tulis pertanyaan yang ingin dipantau terus-menerus, misalnya \"beri tahu saya saat ada orang masuk\", lalu tekan tombol mode langsung." });
+      return;
+    }
+    onStartLive(inputValue.trim());
+    setInputValue('');
+  };
+
+  const handleSceneWatchClick = () => {
+    if (isSceneWatchActive) {
+      onStopSceneWatch();
+      return;
+    }
+    // The text in the input, if any, is asked whenever the scene changes.
+    onStartSceneWatch(inputValue.trim());
+    setInputValue('');
+  };
+
   const commonDisabled = isLoading; 
 
   return (
-    <form 
-      onSubmit={handleSubmit} 
-      className="flex items-center space-x-2 p-4 border-t border-white/20 bg-background/70 backdrop-filter backdrop-blur-sm"
-    >
-      <Input
-        type="text"
-        placeholder={isRecording ? "Mendengarkan..." : "Tanyakan tentang apa yang dilihat kamera..."}
-        value={inputValue}
-        onChange={(e) => setInputValue(e.target.value)}
-        className="flex-grow rounded-full focus-visible:ring-accent bg-white/20 placeholder-white/70 text-white border-white/30"
-        disabled={commonDisabled}
-        readOnly={isRecording}
-        aria-label="Input pesan obrolan"
-      />
-      <Button
-        type="button"
-        size="icon"
-        variant="outline"
-        className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
-        onClick={handleMicClick}
-        disabled={commonDisabled || isRecording} // Also disable if recording
-        aria-label={isRecording ? "Hentikan perekaman" : "Mulai perekaman"}
-      >
-        {isRecording ? <MicOff className="h-5 w-5 text-destructive" /> : <Mic className="h-5 w-5" />}
-      </Button>
-      <Button
-        type="button"
-        size="icon"
-        variant="outline"
-        className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
-        onClick={onToggleCamera}
-        disabled={isLoading || isRecording} 
-        aria-label={isCameraActive ? "Matikan kamera" : "Nyalakan kamera"}
-      >
-        {isCameraProcessing ? <Loader2 className="h-5 w-5 animate-spin" /> : isCameraActive ? <VideoOff className="h-5 w-5" /> : <Video className="h-5 w-5" />}
-      </Button>
-      <Button
-        type="button"
-        size="icon"
-        variant="outline"
-        className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
-        onClick={onToggleFacingMode}
-        disabled={isLoading || isRecording || !isCameraActive} // Disable if camera not active
-        aria-label="Ganti Kamera"
-      >
-        <SwitchCamera className="h-5 w-5" />
-      </Button>
-       <Button
-        type="button"
-        size="icon"
-        variant="outline"
-        className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
-        onClick={() => {
-          onToggleTts();
-          if (isTtsEnabled) stopSpeaking(); 
-        }}
-        disabled={commonDisabled}
-        aria-label={isTtsEnabled ? "Nonaktifkan suara AI" : "Aktifkan suara AI"}
-      >
-        {isTtsEnabled ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
-      </Button>
-      <Button
-        type="submit"
-        size="icon"
-        className="rounded-full bg-accent hover:bg-accent/90 text-accent-foreground"
-        disabled={commonDisabled || !inputValue.trim() || isRecording} 
-        aria-label="Kirim pesan"
+    <div className="border-t border-white/20 bg-background/70 backdrop-filter backdrop-blur-sm">
+      {(attachedImage || isAttachingImage) && (
+        <div className="flex items-center gap-2 px-4 pt-3 text-xs text-white">
+          {attachedImage ? (
+            <>
+              <div className="relative">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={attachedImage.dataUri} alt={attachedImage.name ?? 'Gambar terlampir'} className="h-14 w-14 rounded-md border border-white/30 object-cover" />
+                <button
+                  type="button"
+                  onClick={onRemoveAttachment}
+                  className="absolute -right-2 -top-2 rounded-full bg-destructive p-0.5 text-destructive-foreground shadow-md"
+                  aria-label="Hapus gambar terlampir"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+              <span className="truncate opacity-80">{attachedImage.name ?? 'Gambar terlampir'} · {attachedImage.width}×{attachedImage.height}</span>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span className="opacity-80">Memproses gambar...</span>
+            </>
+          )}
+        </div>
+      )}
+      <form 
+        onSubmit={handleSubmit} 
+        className="flex items-center space-x-2 p-4"
       >
-        {isLoading && !isCameraProcessing && !isRecording ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
-      </Button>
-    </form>
+        <Input
+          type="text"
+          placeholder={isRecording ? "Mendengarkan..." : attachedImage ? "Tanyakan tentang gambar ini..." : "Tanyakan tentang apa yang dilihat kamera..."}
+          value={inputValue}
+          onChange={(e) => setInputValue(e.target.value)}
+          onPaste={handlePaste}
+          className="flex-grow rounded-full focus-visible:ring-accent bg-white/20 placeholder-white/70 text-white border-white/30"
+          disabled={commonDisabled}
+          readOnly={isRecording}
+          aria-label="Input pesan obrolan"
+        />
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
+          onClick={handleMicClick}
+          disabled={commonDisabled || isRecording} // Also disable if recording
+          aria-label={isRecording ? "Hentikan perekaman" : "Mulai perekaman"}
+        >
+          {isRecording ? <MicOff className="h-5 w-5 text-destructive" /> : <Mic className="h-5 w-5" />}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={FILE_INPUT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files && e.target.files.length > 0) onAttachFiles(Array.from(e.target.files));
+            e.target.value = ''; // Allow picking the same file again
+          }}
+        />
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={commonDisabled || isRecording || isAttachingImage}
+          aria-label="Lampirkan gambar dari galeri"
+        >
+          <ImagePlus className="h-5 w-5" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
+          onClick={onToggleCamera}
+          disabled={isLoading || isRecording} 
+          aria-label={isCameraActive ? "Matikan kamera" : "Nyalakan kamera"}
+        >
+          {isCameraProcessing ? <Loader2 className="h-5 w-5 animate-spin" /> : isCameraActive ? <VideoOff className="h-5 w-5" /> : <Video className="h-5 w-5" />}
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
+          onClick={onToggleFacingMode}
+          disabled={isLoading || isRecording || !isCameraActive} // Disable if camera not active
+          aria-label="Ganti Kamera"
+        >
+          <SwitchCamera className="h-5 w-5" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className={isRegionSelecting
+            ? "rounded-full border-accent bg-accent/80 hover:bg-accent/70 text-white"
+            : "rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"}
+          onClick={onToggleRegionSelection}
+          disabled={isLoading || isRecording || !isCameraActive}
+          aria-label={isRegionSelecting ? "Batalkan pemilihan wilayah" : "Pilih wilayah untuk ditanyakan"}
+          aria-pressed={isRegionSelecting}
+        >
+          <Crop className="h-5 w-5" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className={isLiveActive
+            ? "rounded-full border-red-500 bg-red-500/80 hover:bg-red-500/70 text-white"
+            : "rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"}
+          onClick={handleLiveClick}
+          disabled={isRecording || !isCameraActive || isCameraProcessing}
+          aria-label={isLiveActive ? "Hentikan mode langsung" : "Mulai mode langsung dengan pertanyaan ini"}
+          aria-pressed={isLiveActive}
+        >
+          <Radar className={isLiveActive ? "h-5 w-5 animate-pulse" : "h-5 w-5"} />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className={isSceneWatchActive
+            ? "rounded-full border-accent bg-accent/80 hover:bg-accent/70 text-white"
+            : "rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"}
+          onClick={handleSceneWatchClick}
+          disabled={isRecording || !isCameraActive || isCameraProcessing}
+          aria-label={isSceneWatchActive ? "Hentikan pemantauan adegan" : "Tanya otomatis saat adegan berubah"}
+          aria-pressed={isSceneWatchActive}
+        >
+          <ScanEye className={isSceneWatchActive ? "h-5 w-5 animate-pulse" : "h-5 w-5"} />
+        </Button>
+         <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          className="rounded-full border-white/30 bg-white/20 hover:bg-white/30 text-white"
+          onClick={() => {
+            onToggleTts();
+            if (isTtsEnabled) stopSpeaking(); 
+          }}
+          disabled={commonDisabled}
+          aria-label={isTtsEnabled ? "Nonaktifkan suara AI" : "Aktifkan suara AI"}
+        >
+          {isTtsEnabled ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+        </Button>
+        {isResponding ? (
+          <Button
+            type="button"
+            size="icon"
+            className="rounded-full bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+            onClick={() => {
+              stopSpeaking();
+              onCancelResponse();
+            }}
+            aria-label="Hentikan respons"
+          >
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            size="icon"
+            className="rounded-full bg-accent hover:bg-accent/90 text-accent-foreground"
+            disabled={commonDisabled || !inputValue.trim() || isRecording} 
+            aria-label="Kirim pesan"
+          >
+            {isLoading && !isCameraProcessing && !isRecording ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+          </Button>
+        )}
+      </form>
+    </div>
   );
 };
 
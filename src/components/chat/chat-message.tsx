@@ -1,16 +1,50 @@
 'use client';
 
-import type { FC } from 'react';
-import { cn } from '@/lib/utils';
+import type { FC, ReactNode } from 'react';
+import { cn, isSafeUrl } from '@/lib/utils';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Bot, User, AlertTriangleIcon } from 'lucide-react';
-import type { ChatMessageData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Bot, User, AlertTriangleIcon, Loader2, ExternalLink, Crosshair, Crop, ImageIcon, RotateCcw } from 'lucide-react';
+import type { ChatMessageData, Citation } from '@/types';
+import { formatTokens, usageDetailRows } from '@/lib/usage';
+import { describeSentImage } from '@/lib/frame-encoding';
 
 interface ChatMessageProps {
   message: ChatMessageData;
+  onRetry?: () => void; // Shown as a retry button on error messages that can be retried
 }
 
-const ChatMessage: FC<ChatMessageProps> = ({ message }) => {
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Turns [n] markers that refer to an existing citation into superscript links.
+const renderContentWithCitations = (content: string, citations: Citation[] | undefined): ReactNode => {
+  if (!citations || citations.length === 0) return content;
+  return content.split(/(\[\d+\])/g).map((segment, index) => {
+    const match = segment.match(/^\[(\d+)\]$/);
+    const citation = match ? citations[Number(match[1]) - 1] : undefined;
+    if (!match || !citation || !isSafeUrl(citation.url)) return segment;
+    return (
+      <a
+        key={index}
+        href={citation.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={citation.title}
+        className="align-super text-[0.65rem] font-semibold text-accent hover:underline"
+      >
+        [{match[1]}]
+      </a>
+    );
+  });
+};
+
+const ChatMessage: FC<ChatMessageProps> = ({ message, onRetry }) => {
   const isUser = message.role === 'user';
   const isError = message.isError;
 
@@ -34,8 +68,110 @@ const ChatMessage: FC<ChatMessageProps> = ({ message }) => {
                 ? 'bg-destructive/80 text-destructive-foreground' 
                 : 'bg-card/60 text-card-foreground border border-white/20'),
         )}
+        title={message.model ? `Model: ${message.model}${message.cached ? ' (dari cache)' : ''}` : undefined}
       >
-        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        {message.focus && (
+          <div className="mb-1 inline-flex items-center gap-1 rounded-full bg-white/20 px-2 py-0.5 text-xs font-semibold">
+            <Crosshair className="h-3 w-3" />
+            {message.focus.label}
+          </div>
+        )}
+        {message.region && (
+          <div className="mb-1 inline-flex items-center gap-1 rounded-full bg-white/20 px-2 py-0.5 text-xs font-semibold">
+            <Crop className="h-3 w-3" />
+            Wilayah {Math.round(message.region.width * 100)}% × {Math.round(message.region.height * 100)}%
+          </div>
+        )}
+        {message.imageInfo && (
+          <div
+            className="mb-1 inline-flex items-center gap-1 rounded-full bg-white/20 px-2 py-0.5 text-xs"
+            title={`Gambar yang dikirim (kualitas encoding ${Math.round(message.imageInfo.quality * 100)}%${message.frameQuality ? `, skor kejernihan ${Math.round(message.frameQuality.score * 100)}%` : ''})`}
+          >
+            <ImageIcon className="h-3 w-3" />
+            {describeSentImage(message.imageInfo)}
+          </div>
+        )}
+        {message.isStreaming && !message.content ? (
+          <Loader2 className="h-4 w-4 animate-spin opacity-80" aria-label="Sedang menyusun jawaban" />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap">
+            {renderContentWithCitations(message.content, message.citations)}
+            {message.isStreaming && <span className="ml-0.5 inline-block animate-pulse">▍</span>}
+          </p>
+        )}
+        {isError && onRetry && (
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            className="mt-2 h-7 gap-1 px-2 text-xs"
+            onClick={onRetry}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Coba lagi
+          </Button>
+        )}
+        {message.citations && message.citations.length > 0 && (
+          <ol className="mt-2 space-y-1 border-t border-white/20 pt-2" aria-label="Sumber">
+            {message.citations.map((citation, index) => (
+              <li key={`${index}-${citation.url}`} className="text-xs">
+                {isSafeUrl(citation.url) ? (
+                  <a
+                    href={citation.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={citation.snippet ?? citation.claim}
+                    className="inline-flex max-w-full items-center gap-1 rounded-full bg-white/15 px-2 py-0.5 hover:bg-white/25"
+                  >
+                    <span className="font-semibold">[{index + 1}]</span>
+                    <span className="truncate">{citation.title}</span>
+                    <span className="shrink-0 opacity-70">· {hostnameOf(citation.url)}</span>
+                    <ExternalLink className="h-3 w-3 shrink-0 opacity-70" />
+                  </a>
+                ) : (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5">
+                    <span className="font-semibold">[{index + 1}]</span>
+                    <span className="truncate">{citation.title}</span>
+                  </span>
+                )}
+                {citation.claim && <p className="mt-0.5 pl-2 opacity-70">{citation.claim}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+        {message.usage && !message.isStreaming && (
+          <details className="mt-2 border-t border-white/20 pt-1 text-xs">
+            <summary className="cursor-pointer select-none opacity-70 hover:opacity-100">
+              Detail · {formatTokens(message.usage.totalTokens)} token{message.cached ? ' · dari cache' : ''}
+            </summary>
+            <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 opacity-80">
+              {message.model && (
+                <>
+                  <dt>Model</dt>
+                  <dd className="truncate">{message.model}</dd>
+                </>
+              )}
+              {message.mode && (
+                <>
+                  <dt>Mode</dt>
+                  <dd className="truncate">{message.mode.label}</dd>
+                </>
+              )}
+              {message.promptVersion && (
+                <>
+                  <dt>Prompt</dt>
+                  <dd>{message.promptVersion}</dd>
+                </>
+              )}
+              {usageDetailRows(message.usage).map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt>{label}</dt>
+                  <dd>{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </details>
+        )}
         {/* 
           Optionally, display counted object information here if needed in the future:
           {message.countedObjects && message.countedObjects.length > 0 && (
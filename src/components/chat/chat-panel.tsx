@@ -1,14 +1,67 @@
 
 'use client';
 
-import { useState, useRef, useEffect, type FC, useCallback } from 'react';
+import { useState, useRef, useEffect, useMemo, type FC, useCallback } from 'react';
 import ChatMessage from './chat-message';
 import ChatInput from './chat-input';
+import LiveStatusStrip from './live-status-strip';
+import SceneWatchStrip from './scene-watch-strip';
+import AssistantModePicker from './assistant-mode-picker';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import type { ChatMessageData, CameraFeedRefType } from '@/types';
-import { contextualChatWithVision } from '@/ai/flows';
+import { Download, ImagePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import type { AttachedImage, BoundingBox, ChatMessageData, CameraFeedRefType, EncodedFrame, FocusedObject, FrameQualityScores, HighlightSelection, HistorySummary, RegionSelection, SentImageInfo } from '@/types';
+import { summarizeConversation, type ContextualChatWithVisionInput, type ContextualChatWithVisionOutput } from '@/ai/flows';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { useLiveAnalysis, LIVE_ANALYSIS_INTERVAL_OPTIONS_MS } from '@/hooks/use-live-analysis';
+import { useSceneChangeTrigger, DEFAULT_SCENE_QUESTION } from '@/hooks/use-scene-change-trigger';
+import { useAssistantModes } from '@/hooks/use-assistant-modes';
 import { cn } from '@/lib/utils';
+import { cropImageDataUri, isAcceptedImageFile, normalizeImageFile } from '@/lib/image';
+import { describeSentImage, frameEncodingForQuestion, FRAME_ENCODING_PRESETS } from '@/lib/frame-encoding';
+import { frameQualityWarning } from '@/lib/frame-quality';
+import { mapCountedObjectsFromRegion } from '@/lib/geometry';
+import { loadSessionMessages, loadSessionSummary, saveSessionMessages, saveSessionSummary, DEFAULT_SESSION_TITLE } from '@/lib/chat-store';
+import { DEFAULT_CHAT_CONTEXT_OPTIONS, estimateTokens, planChatContext, toHistoryItems, trimHistoryToBudget } from '@/lib/chat-context';
+import { downloadConversation, type ConversationExportType } from '@/lib/conversation-export';
+import { downloadDataset, type DatasetFormat } from '@/lib/dataset-export';
+import { flowErrorMessage, isRetryableFlowError } from '@/lib/flow-error-messages';
+import { formatCost, formatTokens, summarizeSessionUsage } from '@/lib/usage';
+import { toModeInput, toModeRef } from '@/lib/assistant-modes';
+import { requestChatAnswer, streamChatAnswer } from '@/lib/chat-stream';
+
+// What the UI shows about a sent image; the data URI itself is stored in `image`.
+const sentImageInfo = ({ width, height, bytes, format, quality }: EncodedFrame): SentImageInfo => ({ width, height, bytes, format, quality });
+
+// Rejects as soon as the signal aborts, so a pending server action does not keep the UI waiting (the action itself still runs to the end).
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(new DOMException('Aborted', 'AbortError'));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+interface SendMessageOptions {
+  imageDataUri?: string; // Use this image instead of capturing a new frame
+  imageInfo?: SentImageInfo; // Size and encoding of imageDataUri, when known
+  frameQuality?: FrameQualityScores; // Quality scores of imageDataUri, when it is a checked camera frame
+  noImage?: boolean; // Send the question without an image instead of capturing a frame or using the attachment
+  liveFrame?: boolean; // Capture a camera frame even when an image is attached or a region is selected, and leave those for the user's next question
+  focus?: FocusedObject; // Follow-up about a tapped highlight; imageDataUri is then its crop
+  region?: BoundingBox; // Selected region of interest; imageDataUri is then its crop
+  contextImageDataUri?: string; // Full frame the focused object or region was cropped from, sent as context
+  highlightFrameDataUri?: string; // Frame the returned boxes are drawn over, when it is not imageDataUri
+  replacesFailedTurn?: boolean; // Retry: drop the newest question and its error answer first
+}
+
+interface SentTurn {
+  questionId: string;
+  options: SendMessageOptions; // Replays the turn exactly, images included
+}
 
 interface ChatPanelProps {
   cameraFeedRef: React.RefObject<CameraFeedRefType>;
@@ -18,6 +71,12 @@ interface ChatPanelProps {
   isAiAnalyzing: boolean; // AI model processing
   setIsAiAnalyzing: (isAnalyzing: boolean) => void;
   showChatBubbles: boolean;
+  highlightSelection: HighlightSelection | null; // Highlight the user tapped on the camera overlay
+  onHighlightSelectionHandled: () => void;
+  regionSelection: RegionSelection | null; // Region of interest being drawn; the next question is asked about it
+  sessionId: string | null; // Stored conversation to restore and save to; null disables persistence
+  onSessionSaved?: () => void; // Called after the messages were written, e.g. to refresh the session list
+  sessionTitle?: string; // Used as the title of exported conversations
   className?: string; // Added className prop
 }
 
@@ -29,17 +88,38 @@ const ChatPanel: FC<ChatPanelProps> = ({
   isAiAnalyzing,
   setIsAiAnalyzing,
   showChatBubbles,
+  highlightSelection,
+  onHighlightSelectionHandled,
+  regionSelection,
+  sessionId,
+  onSessionSaved,
+  sessionTitle,
   className, // Destructure className
 }) => {
   const [messages, setMessages] = useState<ChatMessageData[]>([]);
   const [isTtsEnabled, setIsTtsEnabled] = useState(true);
+  const [attachedImage, setAttachedImage] = useState<AttachedImage | null>(null);
+  const [isAttachingImage, setIsAttachingImage] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const chatContentRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const loadedSessionIdRef = useRef<string | null>(null); // Session whose messages are currently shown
+  const restoredMessagesRef = useRef<ChatMessageData[] | null>(null); // Messages as loaded, which need no save
+  const historySummaryRef = useRef<HistorySummary | undefined>(undefined); // Summary of the older turns of this session
+  const handleSendMessageRef = useRef<((question: string, options?: SendMessageOptions) => Promise<void>) | null>(null); // For callbacks that outlive a render
+  const lastSentTurnRef = useRef<SentTurn | null>(null); // How the newest question was sent, for a faithful retry
   const { toast } = useToast();
+  const assistantModes = useAssistantModes();
+  const { activeMode } = assistantModes;
 
   const addMessage = useCallback((message: ChatMessageData) => {
     setMessages(prev => [message, ...prev]); // Prepend new messages
   }, []);
 
+  const updateMessage = useCallback((id: string, patch: Partial<ChatMessageData>) => {
+    setMessages(prev => prev.map(msg => (msg.id === id ? { ...msg, ...patch } : msg)));
+  }, []);
+
   const stopSpeaking = useCallback(() => {
     if (typeof window !== 'undefined' && window.speechSynthesis) {
       window.speechSynthesis.cancel();
@@ -49,7 +129,7 @@ const ChatPanel: FC<ChatPanelProps> = ({
   const speakText = useCallback((text: string) => {
     if (typeof window !== 'undefined' && window.speechSynthesis && text && isTtsEnabled) {
       window.speechSynthesis.cancel();
-      const cleanedText = text.replace(/\*/g, '');
+      const cleanedText = text.replace(/\*/g, '').replace(/\[\d+\]/g, ''); // Don't read citation markers aloud
       const utterance = new SpeechSynthesisUtterance(cleanedText);
       const voices = window.speechSynthesis.getVoices();
       const indonesianVoice = voices.find(voice => voice.lang === 'id-ID' || voice.lang.startsWith('id-'));
@@ -60,9 +140,16 @@ const ChatPanel: FC<ChatPanelProps> = ({
         if (defaultVoice) utterance.voice = defaultVoice;
       }
       utterance.lang = 'id-ID';
+      utterance.rate = activeMode.tts.rate;
       window.speechSynthesis.speak(utterance);
     }
-  }, [isTtsEnabled]);
+  }, [isTtsEnabled, activeMode.tts.rate]);
+
+  // Selecting a mode (or restoring the stored one) applies its speech default; the toggle still overrides it.
+  useEffect(() => {
+    setIsTtsEnabled(activeMode.tts.enabled);
+    if (!activeMode.tts.enabled) stopSpeaking();
+  }, [activeMode.id, activeMode.tts.enabled, stopSpeaking]);
 
   useEffect(() => {
     const loadVoices = () => {
@@ -82,20 +169,290 @@ const ChatPanel: FC<ChatPanelProps> = ({
       };
     }
   }, []);
+
+  useEffect(() => {
+    // Abandon any in-flight response when the panel unmounts.
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    // Switching conversations abandons the in-flight response and restores the stored messages.
+    abortControllerRef.current?.abort();
+    cameraFeedRef.current?.drawHighlights(null);
+    loadedSessionIdRef.current = null;
+    historySummaryRef.current = undefined;
+    setMessages([]);
+    if (!sessionId) return;
+
+    let cancelled = false;
+    Promise.all([loadSessionMessages(sessionId), loadSessionSummary(sessionId)])
+      .then(([restored, historySummary]) => {
+        if (cancelled) return;
+        console.log(`ChatPanel: Restored ${restored.length} messages for session ${sessionId}.`);
+        restoredMessagesRef.current = restored;
+        historySummaryRef.current = historySummary;
+        loadedSessionIdRef.current = sessionId;
+        setMessages(restored);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error("ChatPanel: Failed to restore session:", error);
+        toast({ title: "Gagal Memuat Percakapan", description: error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.", variant: "destructive" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, cameraFeedRef, toast]);
+
+  useEffect(() => {
+    if (!sessionId || loadedSessionIdRef.current !== sessionId) return; // Not restored yet
+    if (messages === restoredMessagesRef.current) return;
+    if (messages.some(msg => msg.isStreaming)) return; // Saved once the answer is complete
+    saveSessionMessages(sessionId, messages)
+      .then(() => onSessionSaved?.())
+      .catch(error => console.error("ChatPanel: Failed to save session:", error));
+  }, [messages, sessionId, onSessionSaved]);
+
+  const streamAssistantAnswer = useCallback(async (
+    input: ContextualChatWithVisionInput,
+    assistantMessageId: string,
+    signal: AbortSignal
+  ): Promise<ContextualChatWithVisionOutput> => {
+    // Aborting closes the request, which also stops the answer on the server.
+    return streamChatAnswer(input, signal, chunk => updateMessage(assistantMessageId, { content: chunk.answer }));
+  }, [updateMessage]);
+
+  // Only the recent turns are sent verbatim; older ones are folded into a summary stored with the session.
+  const prepareHistory = useCallback(async (priorMessages: ChatMessageData[], signal: AbortSignal) => {
+    const plan = planChatContext(priorMessages, historySummaryRef.current);
+    let summary = plan.summary;
+    let verbatim = plan.verbatim;
+    if (plan.toSummarize.length > 0) {
+      try {
+        const { summary: text } = await abortable(summarizeConversation({
+          previousSummary: summary?.text,
+          messages: toHistoryItems(plan.toSummarize),
+        }), signal);
+        summary = { text, throughMessageId: plan.toSummarize[plan.toSummarize.length - 1].id, updatedAt: Date.now() };
+        historySummaryRef.current = summary;
+        console.log(`ChatPanel: Summarized ${plan.toSummarize.length} older messages.`);
+        if (sessionId) {
+          saveSessionSummary(sessionId, summary).catch(error => console.error("ChatPanel: Failed to save history summary:", error));
+        }
+      } catch (error) {
+        if (signal.aborted) throw error;
+        // Still answer the question: send the older turns verbatim and let the budget trim them.
+        console.warn("ChatPanel: Summarizing older messages failed, sending them verbatim instead.", error);
+        verbatim = [...plan.toSummarize, ...verbatim];
+      }
+    }
+    const budget = DEFAULT_CHAT_CONTEXT_OPTIONS.tokenBudget - estimateTokens(summary?.text ?? '');
+    return { history: trimHistoryToBudget(toHistoryItems(verbatim), budget), historySummary: summary?.text };
+  }, [sessionId]);
+
+  const live = useLiveAnalysis({
+    captureFrame: () => cameraFeedRef.current?.captureCurrentFrame(FRAME_ENCODING_PRESETS.live)?.dataUri ?? null,
+    isBusy: isAiAnalyzing || isCameraProcessing,
+    onResult: (result, previous, frame) => {
+      cameraFeedRef.current?.drawHighlights(result.countedObjects && result.countedObjects.length > 0 ? result.countedObjects : null, frame);
+      // Only post to the chat when the standing condition becomes true, not on every frame.
+      if (result.triggered && !previous?.triggered) {
+        addMessage({ id: `${Date.now()}-live`, role: 'assistant', content: `🔔 ${result.observation}`, createdAt: Date.now(), image: frame, countedObjects: result.countedObjects });
+        speakText(result.observation);
+      }
+    },
+    onStopped: (reason) => {
+      toast({
+        title: "Mode Langsung Dihentikan",
+        description: `Analisis langsung gagal beberapa kali berturut-turut. ${reason}`,
+        variant: "destructive",
+      });
+    },
+  });
+  const { isLive, start: startLive, stop: stopLive } = live;
+
+  useEffect(() => {
+    if (!isCameraActive && isLive) {
+      console.log("ChatPanel: Camera turned off, stopping live mode.");
+      stopLive();
+    }
+  }, [isCameraActive, isLive, stopLive]);
+
+  const handleStartLive = useCallback((standingQuestion: string) => {
+    console.log("ChatPanel: Starting live mode with standing question:", standingQuestion);
+    cameraFeedRef.current?.drawHighlights(null);
+    startLive(standingQuestion);
+  }, [startLive, cameraFeedRef]);
+
+  const handleStopLive = useCallback(() => {
+    console.log("ChatPanel: Stopping live mode.");
+    stopLive();
+    cameraFeedRef.current?.drawHighlights(null);
+  }, [stopLive, cameraFeedRef]);
+
+  const sceneWatch = useSceneChangeTrigger({
+    sampleSignature: () => cameraFeedRef.current?.sampleSceneSignature() ?? null,
+    isBusy: isAiAnalyzing || isCameraProcessing,
+    onSceneChange: (question) => {
+      // While a region is drawn the camera only returns the frozen frame; the user's question comes first.
+      if (regionSelection) return;
+      handleSendMessageRef.current?.(question, { liveFrame: true });
+    },
+  });
+  const { isWatching: isSceneWatching, start: startSceneWatch, stop: stopSceneWatch } = sceneWatch;
+
+  useEffect(() => {
+    if (!isCameraActive && isSceneWatching) {
+      console.log("ChatPanel: Camera turned off, stopping scene watch.");
+      stopSceneWatch();
+    }
+  }, [isCameraActive, isSceneWatching, stopSceneWatch]);
+
+  const handleStartSceneWatch = useCallback((question: string) => {
+    console.log("ChatPanel: Watching for scene changes with question:", question || DEFAULT_SCENE_QUESTION);
+    startSceneWatch(question || DEFAULT_SCENE_QUESTION);
+  }, [startSceneWatch]);
+
+  const handleToggleRegionSelection = useCallback(() => {
+    if (regionSelection) {
+      cameraFeedRef.current?.cancelRegionSelection();
+      return;
+    }
+    if (!cameraFeedRef.current?.startRegionSelection()) {
+      toast({ title: "Gambar Tidak Tersedia", description: "Gagal membekukan frame kamera untuk memilih wilayah.", variant: "destructive" });
+    }
+  }, [regionSelection, cameraFeedRef, toast]);
+
+  const handleAttachFiles = useCallback(async (files: File[]) => {
+    const file = files.find(isAcceptedImageFile);
+    if (!file) {
+      toast({ title: "Format Tidak Didukung", description: "Lampirkan gambar JPEG, PNG, WebP, atau HEIC.", variant: "destructive" });
+      return;
+    }
+    if (files.length > 1) {
+      toast({ title: "Satu Gambar Saja", description: `Hanya "${file.name}" yang dilampirkan.` });
+    }
+    setIsAttachingImage(true);
+    try {
+      const image = await normalizeImageFile(file);
+      console.log(`ChatPanel: Attached ${file.name} as ${describeSentImage(image)}.`);
+      setAttachedImage(image);
+    } catch (error) {
+      console.error("ChatPanel: Failed to attach image:", error);
+      toast({ title: "Gagal Melampirkan Gambar", description: error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.", variant: "destructive" });
+    } finally {
+      setIsAttachingImage(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    // Files dropped anywhere on the page are attached to the next question.
+    const hasFiles = (event: DragEvent) => !!event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files');
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setIsDraggingFile(true);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!event.relatedTarget) setIsDraggingFile(false); // Left the window
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      setIsDraggingFile(false);
+      handleAttachFiles(Array.from(event.dataTransfer!.files));
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [handleAttachFiles]);
+
+  const handleCancelResponse = useCallback(() => {
+    if (abortControllerRef.current) {
+      console.log("ChatPanel: User cancelled the in-flight response.");
+      abortControllerRef.current.abort();
+    }
+  }, []);
   
-  const handleSendMessage = useCallback(async (userQuestion: string) => {
+  const handleSendMessage = useCallback(async (userQuestion: string, options: SendMessageOptions = {}) => {
     stopSpeaking();
     setIsAiAnalyzing(true);
+    // Follow-ups about a tapped highlight keep the current highlights (and the selection) on screen.
+    const isFocusFollowUp = !!options.focus;
     
     // Clear previous highlights before sending new message or if camera is off
-    if (cameraFeedRef.current?.drawHighlights) {
+    if (!isFocusFollowUp && cameraFeedRef.current?.drawHighlights) {
         cameraFeedRef.current.drawHighlights(null);
     }
   
     let imageDataUri: string | null = null;
-    if (isCameraActive && cameraFeedRef.current) {
-      imageDataUri = cameraFeedRef.current.captureCurrentFrame();
-      if (!imageDataUri) {
+    let region = options.region; // Set when the question is about a selected region of the frozen frame
+    let contextImageDataUri = options.contextImageDataUri;
+    let highlightFrameDataUri = options.highlightFrameDataUri; // Frame the returned boxes are drawn over
+    let imageInfo: SentImageInfo | undefined; // Known for camera frames and uploads, not for crops
+    let frameQuality = options.frameQuality;
+    if (options.imageDataUri) {
+      imageDataUri = options.imageDataUri;
+      imageInfo = options.imageInfo;
+    } else if (options.noImage) {
+      console.log("ChatPanel: Sending message without an image, as requested.");
+    } else if (attachedImage && !options.liveFrame) {
+      // An uploaded image replaces the camera for this turn; its highlights are drawn over it.
+      imageDataUri = attachedImage.dataUri;
+      imageInfo = sentImageInfo(attachedImage);
+      highlightFrameDataUri = attachedImage.dataUri;
+      if (regionSelection) cameraFeedRef.current?.cancelRegionSelection();
+      cameraFeedRef.current?.showStillImage(attachedImage);
+      setAttachedImage(null);
+    } else if (regionSelection && !options.liveFrame) {
+      cameraFeedRef.current?.cancelRegionSelection();
+      highlightFrameDataUri = regionSelection.frameDataUri;
+      if (regionSelection.region) {
+        region = regionSelection.region;
+        try {
+          imageDataUri = await cropImageDataUri(regionSelection.frameDataUri, region, 0);
+          if (regionSelection.includeFullFrame) contextImageDataUri = regionSelection.frameDataUri;
+        } catch (error) {
+          console.error("ChatPanel: Failed to crop the selected region, sending the full frame instead:", error);
+          imageDataUri = regionSelection.frameDataUri;
+          region = undefined;
+        }
+      } else {
+        console.log("ChatPanel: No region drawn, sending the frozen frame.");
+        imageDataUri = regionSelection.frameDataUri;
+      }
+    } else if (isCameraActive && cameraFeedRef.current) {
+      // Counting and reading questions get a larger frame.
+      const frame = await cameraFeedRef.current.captureSteadyFrame(frameEncodingForQuestion(userQuestion));
+      imageDataUri = frame?.dataUri ?? null;
+      imageInfo = frame ? sentImageInfo(frame) : undefined;
+      frameQuality = frame?.frameQuality;
+      const qualityWarning = frameQuality ? frameQualityWarning(frameQuality) : null;
+      if (frame && frameQuality && qualityWarning) {
+        // Do not spend a model call on a frame that will likely get a bad answer; the user can still send it.
+        console.log("ChatPanel: Frame failed the quality check:", frameQuality.issues.join(', '), "Score:", frameQuality.score);
+        const lowQualityFrame = { imageDataUri: frame.dataUri, imageInfo, frameQuality };
+        toast({
+          title: "Kualitas Gambar Kurang Baik",
+          description: `${qualityWarning}, lalu kirim lagi.`,
+          action: (
+            <ToastAction altText="Kirim gambar ini saja" onClick={() => handleSendMessageRef.current?.(userQuestion, lowQualityFrame)}>
+              Kirim saja
+            </ToastAction>
+          ),
+        });
+        speakText(qualityWarning);
+        setIsAiAnalyzing(false);
+        return;
+      }
+      if (imageDataUri) {
+        cameraFeedRef.current.showStillImage(null);
+      } else {
         console.warn("ChatPanel: Camera is active, but failed to capture frame. Proceeding without image for this turn.");
         toast({ title: "Peringatan Kamera", description: "Gagal menangkap gambar dari kamera untuk pertanyaan ini. AI akan merespons tanpa gambar baru.", variant: "default" });
       }
@@ -107,37 +464,103 @@ const ChatPanel: FC<ChatPanelProps> = ({
       id: Date.now().toString(),
       role: 'user',
       content: userQuestion,
-      image: imageDataUri ?? undefined
+      createdAt: Date.now(),
+      image: imageDataUri ?? undefined,
+      focus: options.focus,
+      region,
+      imageInfo,
+      frameQuality,
+      mode: toModeRef(activeMode),
     };
 
-    const historyForAI = [...messages]
-      .reverse()
-      .map(msg => ({ role: msg.role, content: msg.content }));
+    // A retry replaces the failed question and its error answer instead of asking a second time.
+    const priorMessages = options.replacesFailedTurn ? messages.slice(2) : messages;
 
+    if (options.replacesFailedTurn) {
+      const replacedIds = new Set(messages.slice(0, 2).map(msg => msg.id));
+      setMessages(prev => prev.filter(msg => !replacedIds.has(msg.id)));
+    }
     addMessage(userMessageData);
+    lastSentTurnRef.current = {
+      questionId: userMessageData.id,
+      options: {
+        imageDataUri: imageDataUri ?? undefined,
+        noImage: !imageDataUri,
+        imageInfo,
+        frameQuality,
+        focus: options.focus,
+        region,
+        contextImageDataUri,
+        highlightFrameDataUri,
+      },
+    };
+
+    // Placeholder that grows as chunks arrive.
+    const assistantMessageId = `${Date.now()}-assistant`;
+    addMessage({ id: assistantMessageId, role: 'assistant', content: '', createdAt: Date.now(), isStreaming: true });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     try {
-      console.log("ChatPanel: Sending to AI. Image for this turn:", imageDataUri ? "Present" : "Absent", "History items:", historyForAI.length);
-      const response = await contextualChatWithVision({
+      const { history, historySummary } = await prepareHistory(priorMessages, abortController.signal);
+      const flowInput: ContextualChatWithVisionInput = {
         photoDataUri: imageDataUri ?? undefined,
         question: userQuestion,
-        history: historyForAI
-      });
+        history,
+        historySummary,
+        focus: options.focus,
+        region,
+        contextPhotoDataUri: contextImageDataUri,
+        mode: toModeInput(activeMode),
+      };
+      console.log("ChatPanel: Sending to AI. Image for this turn:", imageInfo ? describeSentImage(imageInfo) : imageDataUri ? "Present" : "Absent", "History items:", history.length, "Summary:", historySummary ? "Present" : "Absent", "Mode:", activeMode.id);
+      let response: ContextualChatWithVisionOutput;
+      try {
+        response = await streamAssistantAnswer(flowInput, assistantMessageId, abortController.signal);
+      } catch (streamError) {
+        if (abortController.signal.aborted) throw streamError;
+        console.warn("ChatPanel: Streaming response failed, falling back to non-streaming request.", streamError);
+        updateMessage(assistantMessageId, { content: '' });
+        response = await requestChatAnswer(flowInput, abortController.signal);
+      }
+
+      if (response.status === 'error') {
+        console.warn("ChatPanel: Flow reported an error:", response.error.code, response.error.message);
+        const description = flowErrorMessage(response.error);
+        updateMessage(assistantMessageId, { content: description, isError: true, errorCode: response.error.code, isStreaming: false });
+        toast({ title: "Kesalahan Obrolan AI", description, variant: "destructive" });
+        if (!isFocusFollowUp) cameraFeedRef.current?.drawHighlights(null);
+        return;
+      }
 
-      const assistantMessageData: ChatMessageData = {
-        id: Date.now().toString(),
-        role: 'assistant',
+      // Boxes for a region are relative to the crop; map them back onto the full frame.
+      const countedObjects = region && response.countedObjects
+        ? mapCountedObjectsFromRegion(response.countedObjects, region)
+        : response.countedObjects;
+
+      updateMessage(assistantMessageId, {
         content: response.answer,
-        countedObjects: response.countedObjects, // Store counted objects with the message
-      };
-      addMessage(assistantMessageData);
+        countedObjects, // Store counted objects with the message
+        citations: response.citations,
+        model: response.model,
+        cached: response.cache?.hit,
+        usage: response.usage,
+        mode: response.mode ?? toModeRef(activeMode),
+        promptVersion: response.promptVersion,
+        isStreaming: false,
+      });
 
       if (response.answer) speakText(response.answer);
 
       // Draw highlights if objects were counted
-      if (response.countedObjects && response.countedObjects.length > 0) {
+      if (isFocusFollowUp) {
+        // Boxes in a follow-up answer are relative to the crop, so keep the original highlights.
+      } else if (countedObjects && countedObjects.length > 0) {
         if (cameraFeedRef.current?.drawHighlights) {
-          cameraFeedRef.current.drawHighlights(response.countedObjects);
+          // Without the full frame (a region retried after a reload), draw the crop-relative boxes over the crop.
+          const highlightObjects = region && !highlightFrameDataUri ? response.countedObjects ?? null : countedObjects;
+          cameraFeedRef.current.drawHighlights(highlightObjects, highlightFrameDataUri ?? imageDataUri ?? undefined);
         }
       } else {
         // Ensure highlights are cleared if no objects were counted or if camera is off
@@ -147,10 +570,17 @@ const ChatPanel: FC<ChatPanelProps> = ({
       }
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep whatever was streamed so far; highlights only arrive with the complete output.
+        setMessages(prev => prev.map(msg => msg.id === assistantMessageId
+          ? { ...msg, content: msg.content ? `${msg.content} (dibatalkan)` : 'Respons dibatalkan.', isCancelled: true, isStreaming: false }
+          : msg));
+        return;
+      }
       console.error("Error in contextual chat:", error);
       const errorMessage = error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.";
       const aiErrorMsg = `Maaf, saya mengalami kesalahan saat memproses pertanyaan Anda: ${errorMessage.substring(0, 150)}...`;
-      addMessage({ id: Date.now().toString(), role: 'assistant', content: aiErrorMsg, isError: true });
+      updateMessage(assistantMessageId, { content: aiErrorMsg, isError: true, errorCode: 'INTERNAL', isStreaming: false });
       speakText(`Terjadi kesalahan: ${errorMessage.substring(0,50)}`);
       toast({
         title: "Kesalahan Obrolan AI",
@@ -158,14 +588,89 @@ const ChatPanel: FC<ChatPanelProps> = ({
         variant: "destructive",
       });
       // Clear highlights on error
-      if (cameraFeedRef.current?.drawHighlights) {
+      if (!isFocusFollowUp && cameraFeedRef.current?.drawHighlights) {
           cameraFeedRef.current.drawHighlights(null);
       }
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsAiAnalyzing(false);
     }
   
-  }, [messages, addMessage, speakText, stopSpeaking, toast, setIsAiAnalyzing, isCameraActive, cameraFeedRef]);
+  }, [messages, addMessage, updateMessage, streamAssistantAnswer, prepareHistory, speakText, stopSpeaking, toast, setIsAiAnalyzing, isCameraActive, cameraFeedRef, regionSelection, attachedImage, activeMode]);
+  handleSendMessageRef.current = handleSendMessage;
+
+  // Only the newest answer can be retried, so the retried turn never leaves later messages out of order.
+  const handleRetryLastQuestion = useCallback(() => {
+    const [failedAnswer, question] = messages;
+    if (!failedAnswer?.isError || question?.role !== 'user' || isAiAnalyzing) return;
+    console.log("ChatPanel: Retrying the last question.");
+    const sentTurn = lastSentTurnRef.current;
+    // After a reload only the stored message is left; it lacks the full frame a crop was cut from.
+    const replay: SendMessageOptions = sentTurn?.questionId === question.id
+      ? sentTurn.options
+      : {
+        imageDataUri: question.image,
+        noImage: !question.image,
+        imageInfo: question.imageInfo,
+        frameQuality: question.frameQuality,
+        focus: question.focus,
+        region: question.region,
+      };
+    handleSendMessage(question.content, { ...replay, replacesFailedTurn: true });
+  }, [messages, isAiAnalyzing, handleSendMessage]);
+
+  useEffect(() => {
+    if (!highlightSelection) return;
+    onHighlightSelectionHandled();
+    if (isAiAnalyzing) {
+      toast({ title: "Harap Tunggu", description: "AI masih memproses pertanyaan sebelumnya." });
+      return;
+    }
+
+    const askAboutSelection = async () => {
+      const sourceFrame = highlightSelection.sourceFrameDataUri ?? cameraFeedRef.current?.captureCurrentFrame(FRAME_ENCODING_PRESETS.detail)?.dataUri ?? null;
+      if (!sourceFrame) {
+        toast({ title: "Gambar Tidak Tersedia", description: "Tidak ada gambar untuk objek yang dipilih.", variant: "destructive" });
+        return;
+      }
+      if (!highlightSelection.sourceFrameDataUri) {
+        console.warn("ChatPanel: Highlight has no source frame, cropping from the current camera frame instead.");
+      }
+      try {
+        const crop = await cropImageDataUri(sourceFrame, highlightSelection.boundingBox);
+        await handleSendMessage(`Apa sebenarnya objek ini (${highlightSelection.label})?`, {
+          imageDataUri: crop,
+          focus: { label: highlightSelection.label, boundingBox: highlightSelection.boundingBox },
+          contextImageDataUri: sourceFrame,
+        });
+      } catch (error) {
+        console.error("ChatPanel: Failed to crop the selected highlight:", error);
+        toast({ title: "Gagal Memotong Gambar", description: error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.", variant: "destructive" });
+      }
+    };
+    askAboutSelection();
+  }, [highlightSelection, onHighlightSelectionHandled, isAiAnalyzing, handleSendMessage, cameraFeedRef, toast]);
+
+  const handleExport = useCallback((type: ConversationExportType) => {
+    try {
+      downloadConversation(type, sessionTitle ?? DEFAULT_SESSION_TITLE, messages);
+    } catch (error) {
+      console.error("ChatPanel: Failed to export conversation:", error);
+      toast({ title: "Gagal Mengekspor", description: error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.", variant: "destructive" });
+    }
+  }, [sessionTitle, messages, toast]);
+
+  const handleExportDataset = useCallback(async (format: DatasetFormat) => {
+    try {
+      const { frameCount, classes } = await downloadDataset(format, sessionTitle ?? DEFAULT_SESSION_TITLE, messages);
+      toast({ title: "Dataset Diekspor", description: `${frameCount} gambar, ${classes.length} kelas (${classes.join(', ')}).` });
+    } catch (error) {
+      console.error("ChatPanel: Failed to export dataset:", error);
+      toast({ title: "Gagal Mengekspor Dataset", description: error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.", variant: "destructive" });
+    }
+  }, [sessionTitle, messages, toast]);
 
   const toggleTts = () => {
     setIsTtsEnabled(prev => {
@@ -174,6 +679,8 @@ const ChatPanel: FC<ChatPanelProps> = ({
     });
   };
 
+  const sessionUsage = useMemo(() => summarizeSessionUsage(messages), [messages]);
+
   const handleToggleFacingMode = useCallback(() => {
     if (cameraFeedRef.current?.toggleFacingMode) {
       cameraFeedRef.current.toggleFacingMode();
@@ -187,17 +694,88 @@ const ChatPanel: FC<ChatPanelProps> = ({
   return (
     <div className={cn("w-full flex flex-col overflow-hidden", className)}>
       {showChatBubbles ? (
-        <ScrollArea className="flex-grow p-3 sm:p-4">
-          <div ref={chatContentRef} className="space-y-3">
-            {messages.map((msg) => <ChatMessage key={msg.id} message={msg} />)}
+        // Empty space around the bubbles lets taps through to the camera overlay (e.g. to select a highlight).
+        <ScrollArea className="flex-grow p-3 sm:p-4 pointer-events-none">
+          <div ref={chatContentRef} className="space-y-3 pointer-events-auto">
+            {messages.map((msg, index) => (
+              <ChatMessage
+                key={msg.id}
+                message={msg}
+                onRetry={index === 0 && msg.isError && isRetryableFlowError(msg.errorCode ?? 'INTERNAL') && !isAiAnalyzing ? handleRetryLastQuestion : undefined}
+              />
+            ))}
           </div>
         </ScrollArea>
       ) : (
-        <div className="flex-grow"></div>
+        <div className="flex-grow pointer-events-none"></div>
+      )}
+      {isDraggingFile && (
+        <div className="fixed inset-4 z-50 flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-accent bg-black/60 text-white pointer-events-none">
+          <ImagePlus className="h-12 w-12 opacity-80" />
+          <p className="text-lg font-semibold">Lepaskan gambar untuk dilampirkan</p>
+        </div>
+      )}
+      {messages.length > 0 && (
+        <div className="flex items-center justify-end gap-2 px-4 pb-1">
+          {sessionUsage.answers > 0 && (
+            <span className="rounded-full bg-black/30 px-3 py-1 text-xs text-white/80" title={`Total untuk ${sessionUsage.answers} jawaban di sesi ini`}>
+              Sesi: {formatTokens(sessionUsage.totalTokens)} token
+              {sessionUsage.costs.map(cost => ` · ≈${formatCost(cost)}`).join('')}
+            </span>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-7 gap-1 rounded-full bg-black/30 px-3 text-xs text-white hover:bg-black/50 hover:text-white"
+                disabled={isAiAnalyzing}
+              >
+                <Download className="h-3.5 w-3.5" />
+                Ekspor
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => handleExport('markdown')}>Markdown (.md)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport('html')}>Laporan HTML (.html)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport('json')}>JSON (.json, dapat diimpor)</DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs font-normal opacity-70">Dataset anotasi (.zip)</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => handleExportDataset('coco')}>COCO JSON</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExportDataset('yolo')}>YOLO txt</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExportDataset('voc')}>Pascal VOC XML</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+      {isLive && live.status && (
+        <LiveStatusStrip
+          status={live.status}
+          intervalMs={live.intervalMs}
+          intervalOptionsMs={LIVE_ANALYSIS_INTERVAL_OPTIONS_MS}
+          onIntervalChange={live.setIntervalMs}
+          onStop={handleStopLive}
+        />
+      )}
+      {isSceneWatching && sceneWatch.status && (
+        <SceneWatchStrip status={sceneWatch.status} onStop={stopSceneWatch} />
       )}
+      <div className="flex items-center px-4 pb-1">
+        <AssistantModePicker
+          modes={assistantModes.modes}
+          activeMode={activeMode}
+          onSelectMode={assistantModes.selectMode}
+          onSaveCustomMode={assistantModes.saveCustomMode}
+          onDeleteCustomMode={assistantModes.deleteCustomMode}
+          disabled={isAiAnalyzing}
+        />
+      </div>
       <ChatInput
         onSendMessage={handleSendMessage}
         isLoading={isAiAnalyzing || isCameraProcessing}
+        isResponding={isAiAnalyzing}
+        onCancelResponse={handleCancelResponse}
         isCameraActive={isCameraActive}
         isCameraProcessing={isCameraProcessing}
         onToggleCamera={() => {
@@ -208,6 +786,18 @@ const ChatPanel: FC<ChatPanelProps> = ({
           }
         }}
         onToggleFacingMode={handleToggleFacingMode}
+        isRegionSelecting={!!regionSelection}
+        onToggleRegionSelection={handleToggleRegionSelection}
+        attachedImage={attachedImage}
+        isAttachingImage={isAttachingImage}
+        onAttachFiles={handleAttachFiles}
+        onRemoveAttachment={() => setAttachedImage(null)}
+        isLiveActive={isLive}
+        onStartLive={handleStartLive}
+        onStopLive={handleStopLive}
+        isSceneWatchActive={isSceneWatching}
+        onStartSceneWatch={handleStartSceneWatch}
+        onStopSceneWatch={stopSceneWatch}
         isTtsEnabled={isTtsEnabled}
         onToggleTts={toggleTts}
         stopSpeaking={stopSpeaking}
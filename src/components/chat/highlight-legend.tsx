@@ -0,0 +1,78 @@
+'use client';
+
+import type { FC } from 'react';
+import { cn } from '@/lib/utils';
+import { Circle, Eye, EyeOff, Square } from 'lucide-react';
+import { highlightColorForIndex } from '@/lib/highlight-colors';
+import type { CountedObject, HighlightStyle } from '@/types';
+
+interface HighlightLegendProps {
+  objects: CountedObject[];
+  hiddenClasses: string[];
+  onToggleClass: (name: string) => void;
+  highlightStyle: HighlightStyle;
+  onHighlightStyleChange: (style: HighlightStyle) => void;
+  className?: string;
+}
+
+const HighlightLegend: FC<HighlightLegendProps> = ({
+  objects,
+  hiddenClasses,
+  onToggleClass,
+  highlightStyle,
+  onHighlightStyleChange,
+  className,
+}) => {
+  const total = objects.reduce((sum, obj) => sum + obj.count, 0);
+
+  return (
+    <div className={cn('w-48 rounded-lg border border-white/20 bg-black/50 p-2 text-xs text-white shadow-md backdrop-filter backdrop-blur-sm', className)}>
+      <div className="mb-1 flex items-center justify-between">
+        <span className="font-semibold">Objek Terhitung ({total})</span>
+        <div className="flex items-center gap-0.5">
+          <button
+            type="button"
+            onClick={() => onHighlightStyleChange('circle')}
+            className={cn('rounded p-1', highlightStyle === 'circle' ? 'bg-white/30' : 'hover:bg-white/15')}
+            aria-pressed={highlightStyle === 'circle'}
+            aria-label="Tandai dengan lingkaran"
+          >
+            <Circle className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onHighlightStyleChange('rectangle')}
+            className={cn('rounded p-1', highlightStyle === 'rectangle' ? 'bg-white/30' : 'hover:bg-white/15')}
+            aria-pressed={highlightStyle === 'rectangle'}
+            aria-label="Tandai dengan kotak"
+          >
+            <Square className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-0.5">
+        {objects.map((obj, index) => {
+          const isHidden = hiddenClasses.includes(obj.name);
+          return (
+            <li key={`${index}-${obj.name}`}>
+              <button
+                type="button"
+                onClick={() => onToggleClass(obj.name)}
+                className={cn('flex w-full items-center gap-2 rounded px-1 py-0.5 text-left hover:bg-white/15', isHidden && 'opacity-50')}
+                aria-pressed={!isHidden}
+                aria-label={isHidden ? `Tampilkan ${obj.name}` : `Sembunyikan ${obj.name}`}
+              >
+                <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: highlightColorForIndex(index) }} />
+                <span className="flex-grow truncate">{obj.name}</span>
+                <span className="font-semibold">{obj.count}</span>
+                {isHidden ? <EyeOff className="h-3 w-3 shrink-0" /> : <Eye className="h-3 w-3 shrink-0" />}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default HighlightLegend;
@@ -0,0 +1,93 @@
+'use client';
+
+import type { FC } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { AlertTriangleIcon, BellRing, Square } from 'lucide-react';
+import type { LiveAnalysisStatus } from '@/hooks/use-live-analysis';
+
+interface LiveStatusStripProps {
+  status: LiveAnalysisStatus;
+  intervalMs: number;
+  intervalOptionsMs: number[];
+  onIntervalChange: (intervalMs: number) => void;
+  onStop: () => void;
+}
+
+const LiveStatusStrip: FC<LiveStatusStripProps> = ({
+  status,
+  intervalMs,
+  intervalOptionsMs,
+  onIntervalChange,
+  onStop,
+}) => {
+  const lastUpdated = status.lastUpdatedAt
+    ? new Date(status.lastUpdatedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    : null;
+
+  return (
+    <div
+      className={cn(
+        'mx-4 mb-2 rounded-lg border px-3 py-2 text-xs text-white shadow-md backdrop-filter backdrop-blur-sm',
+        status.triggered ? 'border-accent bg-accent/30' : 'border-white/20 bg-black/40',
+      )}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-2">
+        <span className="relative flex h-2.5 w-2.5 shrink-0">
+          <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-red-500 opacity-75" />
+          <span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-red-500" />
+        </span>
+        <span className="font-semibold">LANGSUNG</span>
+        <span className="truncate opacity-80" title={status.standingQuestion}>“{status.standingQuestion}”</span>
+        <div className="ml-auto flex shrink-0 items-center gap-1">
+          {intervalOptionsMs.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onIntervalChange(option)}
+              className={cn(
+                'rounded-full px-2 py-0.5',
+                option === intervalMs ? 'bg-white/30 font-semibold' : 'hover:bg-white/15',
+              )}
+              aria-pressed={option === intervalMs}
+              aria-label={`Analisis setiap ${option / 1000} detik`}
+            >
+              {option / 1000}d
+            </button>
+          ))}
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 rounded-full text-white hover:bg-white/20"
+            onClick={onStop}
+            aria-label="Hentikan mode langsung"
+          >
+            <Square className="h-3 w-3 fill-current" />
+          </Button>
+        </div>
+      </div>
+      <div className="mt-1 flex items-center gap-1.5">
+        {status.error ? (
+          <>
+            <AlertTriangleIcon className="h-3.5 w-3.5 shrink-0 text-destructive" />
+            <span className="truncate">{status.error}</span>
+          </>
+        ) : (
+          <>
+            {status.triggered && <BellRing className="h-3.5 w-3.5 shrink-0" />}
+            <span className="truncate">{status.observation ?? 'Menunggu analisis pertama...'}</span>
+          </>
+        )}
+      </div>
+      <div className="mt-0.5 opacity-60">
+        Terkirim {status.framesSent} · Dilewati {status.framesSkipped}
+        {lastUpdated && ` · Diperbarui ${lastUpdated}`}
+      </div>
+    </div>
+  );
+};
+
+export default LiveStatusStrip;
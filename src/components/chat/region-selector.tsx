@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useRef, useEffect, type FC } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { clamp01, computeCoverRect } from '@/lib/geometry';
+import type { BoundingBox } from '@/types';
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+type Point = { x: number; y: number };
+
+const MIN_REGION_SIZE = 0.02; // Smaller regions are treated as an accidental tap
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+interface RegionSelectorProps {
+  frameDataUri: string;
+  frameWidth: number;
+  frameHeight: number;
+  region: BoundingBox | null;
+  onRegionChange: (region: BoundingBox | null) => void;
+  includeFullFrame: boolean;
+  onIncludeFullFrameChange: (includeFullFrame: boolean) => void;
+  onCancel: () => void;
+}
+
+const boxFromPoints = (a: Point, b: Point): BoundingBox => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const oppositeCorner = (region: BoundingBox, corner: Corner): Point => ({
+  x: corner === 'nw' || corner === 'sw' ? region.x + region.width : region.x,
+  y: corner === 'nw' || corner === 'ne' ? region.y + region.height : region.y,
+});
+
+/**
+ * Shows a frozen frame and lets the user draw, move and resize a rectangle on it.
+ * One pointer draws/moves/resizes; two pointers (pinch) span the rectangle between the fingers.
+ * The region is reported normalized to the frame, not to the screen.
+ */
+const RegionSelector: FC<RegionSelectorProps> = ({
+  frameDataUri,
+  frameWidth,
+  frameHeight,
+  region,
+  onRegionChange,
+  includeFullFrame,
+  onIncludeFullFrameChange,
+  onCancel,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState<{ width: number; height: number } | null>(null);
+  const pointersRef = useRef(new Map<number, Point>());
+  const dragRef = useRef<{ mode: 'draw' | 'move' | Corner; origin: Point; startRegion: BoundingBox | null } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const toFramePoint = (event: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const { drawX, drawY, drawWidth, drawHeight } = computeCoverRect(frameWidth, frameHeight, rect.width, rect.height);
+    return {
+      x: clamp01((event.clientX - rect.left - drawX) / drawWidth),
+      y: clamp01((event.clientY - rect.top - drawY) / drawHeight),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest('[data-region-toolbar]')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toFramePoint(event);
+    pointersRef.current.set(event.pointerId, point);
+
+    if (pointersRef.current.size === 2) {
+      dragRef.current = null; // Pinch takes over
+      const [a, b] = Array.from(pointersRef.current.values());
+      onRegionChange(boxFromPoints(a, b));
+      return;
+    }
+
+    const handle = (event.target as HTMLElement).dataset.handle as 'move' | Corner | undefined;
+    dragRef.current = {
+      mode: handle && region ? handle : 'draw',
+      origin: point,
+      startRegion: region,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.has(event.pointerId)) return;
+    const point = toFramePoint(event);
+    pointersRef.current.set(event.pointerId, point);
+
+    if (pointersRef.current.size >= 2) {
+      const [a, b] = Array.from(pointersRef.current.values());
+      onRegionChange(boxFromPoints(a, b));
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'draw') {
+      onRegionChange(boxFromPoints(drag.origin, point));
+    } else if (drag.mode === 'move' && drag.startRegion) {
+      const { width, height } = drag.startRegion;
+      onRegionChange({
+        x: Math.min(Math.max(drag.startRegion.x + point.x - drag.origin.x, 0), 1 - width),
+        y: Math.min(Math.max(drag.startRegion.y + point.y - drag.origin.y, 0), 1 - height),
+        width,
+        height,
+      });
+    } else if (drag.startRegion) {
+      onRegionChange(boxFromPoints(oppositeCorner(drag.startRegion, drag.mode as Corner), point));
+    }
+  };
+
+  const handlePointerEnd = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.delete(event.pointerId)) return;
+    if (pointersRef.current.size > 0) return;
+    dragRef.current = null;
+    if (region && (region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE)) {
+      onRegionChange(null);
+    }
+  };
+
+  let regionStyle: React.CSSProperties | null = null;
+  if (region && containerSize) {
+    const { drawX, drawY, drawWidth, drawHeight } = computeCoverRect(frameWidth, frameHeight, containerSize.width, containerSize.height);
+    regionStyle = {
+      left: drawX + region.x * drawWidth,
+      top: drawY + region.y * drawHeight,
+      width: region.width * drawWidth,
+      height: region.height * drawHeight,
+    };
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 z-10 touch-none select-none cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={frameDataUri} alt="Frame yang dibekukan" className="w-full h-full object-cover pointer-events-none" draggable={false} />
+      {regionStyle ? (
+        <div
+          data-handle="move"
+          className="absolute cursor-move border-2 border-accent bg-accent/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+          style={regionStyle}
+        >
+          {CORNERS.map(corner => (
+            <div
+              key={corner}
+              data-handle={corner}
+              className={cn(
+                'absolute h-4 w-4 rounded-full border-2 border-white bg-accent',
+                corner === 'nw' && '-left-2 -top-2 cursor-nwse-resize',
+                corner === 'ne' && '-right-2 -top-2 cursor-nesw-resize',
+                corner === 'sw' && '-left-2 -bottom-2 cursor-nesw-resize',
+                corner === 'se' && '-right-2 -bottom-2 cursor-nwse-resize',
+              )}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="absolute inset-0 bg-black/30 pointer-events-none" />
+      )}
+      <div
+        data-region-toolbar
+        className="absolute left-1/2 top-16 flex -translate-x-1/2 items-center gap-2 rounded-full border border-white/20 bg-black/60 px-3 py-1.5 text-xs text-white shadow-md backdrop-filter backdrop-blur-sm"
+      >
+        <span>{region ? 'Sesuaikan wilayah, lalu ajukan pertanyaan' : 'Seret untuk memilih wilayah'}</span>
+        <label className="flex cursor-pointer items-center gap-1">
+          <input
+            type="checkbox"
+            checked={includeFullFrame}
+            onChange={(e) => onIncludeFullFrameChange(e.target.checked)}
+            className="accent-accent"
+          />
+          Sertakan frame lengkap
+        </label>
+        <button type="button" onClick={onCancel} className="rounded-full p-0.5 hover:bg-white/20" aria-label="Batalkan pemilihan wilayah">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,52 @@
+'use client';
+
+import type { FC } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScanEye, Square } from 'lucide-react';
+import type { SceneWatchStatus } from '@/hooks/use-scene-change-trigger';
+
+interface SceneWatchStripProps {
+  status: SceneWatchStatus;
+  onStop: () => void;
+}
+
+const SceneWatchStrip: FC<SceneWatchStripProps> = ({ status, onStop }) => {
+  const lastAsked = status.lastAskedAt
+    ? new Date(status.lastAskedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    : null;
+  const stateText = status.state === 'stable'
+    ? 'Adegan stabil'
+    : status.cooldownRemainingMs > 0
+      ? `Adegan baru, menunggu ${Math.ceil(status.cooldownRemainingMs / 1000)} detik`
+      : 'Adegan berubah, menunggu stabil...';
+
+  return (
+    <div
+      className="mx-4 mb-2 rounded-lg border border-white/20 bg-black/40 px-3 py-2 text-xs text-white shadow-md backdrop-filter backdrop-blur-sm"
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-2">
+        <ScanEye className="h-3.5 w-3.5 shrink-0" />
+        <span className="font-semibold">PANTAU ADEGAN</span>
+        <span className="truncate opacity-80" title={status.question}>“{status.question}”</span>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="ml-auto h-6 w-6 shrink-0 rounded-full text-white hover:bg-white/20"
+          onClick={onStop}
+          aria-label="Hentikan pemantauan adegan"
+        >
+          <Square className="h-3 w-3 fill-current" />
+        </Button>
+      </div>
+      <div className="mt-0.5 opacity-60">
+        {stateText} · Ditanyakan {status.questionsAsked}
+        {lastAsked && ` · Terakhir ${lastAsked}`}
+      </div>
+    </div>
+  );
+};
+
+export default SceneWatchStrip;
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useRef, type FC, type FormEvent } from 'react';
+import { FileUp, MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ChatSession } from '@/types';
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  onCreate: () => void;
+  onSelect: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+  onImport: (file: File) => void; // A JSON file from the conversation export
+  disabled?: boolean; // e.g. while a response is in flight
+}
+
+const formatUpdatedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const SessionSidebar: FC<SessionSidebarProps> = ({
+  sessions,
+  activeSessionId,
+  onCreate,
+  onSelect,
+  onRename,
+  onDelete,
+  onImport,
+  disabled = false,
+}) => {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ChatSession | null>(null);
+
+  const handleSelect = (sessionId: string) => {
+    onSelect(sessionId);
+    if (isMobile) setOpenMobile(false);
+  };
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.title);
+  };
+
+  const submitRename = (e?: FormEvent) => {
+    e?.preventDefault();
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <Sidebar className="z-30">
+      <SidebarHeader>
+        <Button
+          variant="outline"
+          className="w-full justify-start gap-2"
+          onClick={() => {
+            onCreate();
+            if (isMobile) setOpenMobile(false);
+          }}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+          Percakapan Baru
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="ghost"
+          className="w-full justify-start gap-2"
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+        >
+          <FileUp className="h-4 w-4" />
+          Impor dari JSON
+        </Button>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Riwayat</SidebarGroupLabel>
+          <SidebarMenu>
+            {sessions.map(session => (
+              <SidebarMenuItem key={session.id}>
+                {renamingId === session.id ? (
+                  <form onSubmit={submitRename}>
+                    <SidebarInput
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => submitRename()}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      aria-label="Nama percakapan"
+                    />
+                  </form>
+                ) : (
+                  <>
+                    <SidebarMenuButton
+                      size="lg"
+                      isActive={session.id === activeSessionId}
+                      onClick={() => handleSelect(session.id)}
+                      disabled={disabled}
+                    >
+                      <MessageSquare />
+                      <div className="flex min-w-0 flex-col">
+                        <span className="truncate">{session.title}</span>
+                        <span className="truncate text-xs opacity-60">
+                          {formatUpdatedAt(session.updatedAt)} · {session.messageCount} pesan
+                        </span>
+                      </div>
+                    </SidebarMenuButton>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover aria-label={`Opsi untuk ${session.title}`}>
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onSelect={() => startRename(session)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Ganti nama
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          className="text-destructive focus:text-destructive"
+                          onSelect={() => setPendingDelete(session)}
+                          disabled={disabled}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Hapus
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </>
+                )}
+              </SidebarMenuItem>
+            ))}
+          </SidebarMenu>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus percakapan?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &ldquo;{pendingDelete?.title}&rdquo; beserta gambarnya akan dihapus dari perangkat ini. Tindakan ini tidak dapat dibatalkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+            >
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
+
+export default SessionSidebar;
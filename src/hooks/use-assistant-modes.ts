@@ -0,0 +1,82 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { BUILT_IN_ASSISTANT_MODES, DEFAULT_ASSISTANT_MODE_ID, isBuiltInAssistantModeId, resolveAssistantMode } from '@/lib/assistant-modes';
+import type { AssistantMode } from '@/types';
+
+const CUSTOM_MODES_KEY = 'visionai-assistant-modes';
+const ACTIVE_MODE_KEY = 'visionai-active-assistant-mode';
+
+export type CustomAssistantModeDraft = Omit<AssistantMode, 'id'> & { id?: string }; // No id: a new mode
+
+function loadCustomModes(): AssistantMode[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(CUSTOM_MODES_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((mode): mode is AssistantMode => typeof mode?.id === 'string' && !isBuiltInAssistantModeId(mode.id) && typeof mode.instructions === 'string' && !!mode.instructions.trim())
+      .map(mode => resolveAssistantMode(mode));
+  } catch (error) {
+    console.error('useAssistantModes: Failed to load custom modes:', error);
+    return [];
+  }
+}
+
+function persist(key: string, value: string) {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch (error) {
+    console.error('useAssistantModes: Failed to save', key, error);
+  }
+}
+
+/**
+ * The built-in assistant modes plus the user's custom ones, and the active mode. Custom modes and
+ * the selection are kept in localStorage, so they apply to every session on this device.
+ */
+export function useAssistantModes() {
+  const [customModes, setCustomModes] = useState<AssistantMode[]>([]);
+  const [activeModeId, setActiveModeId] = useState<string>(DEFAULT_ASSISTANT_MODE_ID);
+
+  // localStorage is only available after mounting.
+  useEffect(() => {
+    setCustomModes(loadCustomModes());
+    const storedActiveId = window.localStorage.getItem(ACTIVE_MODE_KEY);
+    if (storedActiveId) setActiveModeId(storedActiveId);
+  }, []);
+
+  const modes = useMemo(() => [...BUILT_IN_ASSISTANT_MODES, ...customModes], [customModes]);
+  // A deleted or unknown custom mode falls back to the default.
+  const activeMode = useMemo(
+    () => modes.find(mode => mode.id === activeModeId) ?? resolveAssistantMode(undefined),
+    [modes, activeModeId],
+  );
+
+  const selectMode = useCallback((id: string) => {
+    setActiveModeId(id);
+    persist(ACTIVE_MODE_KEY, id);
+  }, []);
+
+  /** Adds or replaces a custom mode and returns it as saved. */
+  const saveCustomMode = useCallback((draft: CustomAssistantModeDraft): AssistantMode => {
+    const mode = resolveAssistantMode({ ...draft, id: draft.id ?? `custom-${Date.now()}` });
+    setCustomModes(prev => {
+      const next = prev.some(existing => existing.id === mode.id)
+        ? prev.map(existing => (existing.id === mode.id ? mode : existing))
+        : [...prev, mode];
+      persist(CUSTOM_MODES_KEY, JSON.stringify(next));
+      return next;
+    });
+    return mode;
+  }, []);
+
+  const deleteCustomMode = useCallback((id: string) => {
+    setCustomModes(prev => {
+      const next = prev.filter(mode => mode.id !== id);
+      persist(CUSTOM_MODES_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { modes, customModes, activeMode, selectMode, saveCustomMode, deleteCustomMode };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ChatSession } from '@/types';
+import * as chatStore from '@/lib/chat-store';
+import { useToast } from '@/hooks/use-toast';
+import { parseConversationJson } from '@/lib/conversation-export';
+
+/**
+ * Keeps the list of stored conversations and which one is active. On first load the most
+ * recently updated session is opened, or a new one is created. If IndexedDB is unavailable,
+ * `activeSessionId` stays null and the chat works without persistence.
+ */
+export function useChatSessions() {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`useChatSessions: ${title}:`, error);
+    toast({ title, description: error instanceof Error ? error.message : 'Terjadi kesalahan yang tidak diketahui.', variant: 'destructive' });
+  }, [toast]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await chatStore.listSessions());
+    } catch (error) {
+      console.error('useChatSessions: Failed to list sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const init = async () => {
+      try {
+        let stored = await chatStore.listSessions();
+        if (stored.length === 0) {
+          await chatStore.createSession();
+          stored = await chatStore.listSessions();
+        }
+        if (cancelled) return;
+        setSessions(stored);
+        setActiveSessionId(stored[0].id);
+      } catch (error) {
+        if (!cancelled) reportError('Riwayat Tidak Dapat Disimpan', error);
+      }
+    };
+    init();
+    return () => {
+      cancelled = true;
+    };
+  }, [reportError]);
+
+  const createSession = useCallback(async () => {
+    try {
+      const session = await chatStore.createSession();
+      setActiveSessionId(session.id);
+      await refresh();
+    } catch (error) {
+      reportError('Gagal Membuat Percakapan', error);
+    }
+  }, [refresh, reportError]);
+
+  const renameSession = useCallback(async (sessionId: string, title: string) => {
+    try {
+      await chatStore.renameSession(sessionId, title);
+      await refresh();
+    } catch (error) {
+      reportError('Gagal Mengganti Nama Percakapan', error);
+    }
+  }, [refresh, reportError]);
+
+  const importSession = useCallback(async (file: File) => {
+    try {
+      const { title, messages } = parseConversationJson(await file.text());
+      const session = await chatStore.importSession(title, messages);
+      setActiveSessionId(session.id);
+      await refresh();
+      toast({ title: 'Percakapan Diimpor', description: `"${title}" (${messages.length} pesan) telah ditambahkan.` });
+    } catch (error) {
+      reportError('Gagal Mengimpor Percakapan', error);
+    }
+  }, [refresh, reportError, toast]);
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    try {
+      await chatStore.deleteSession(sessionId);
+      let remaining = await chatStore.listSessions();
+      if (remaining.length === 0) {
+        await chatStore.createSession();
+        remaining = await chatStore.listSessions();
+      }
+      setSessions(remaining);
+      setActiveSessionId(current => current === sessionId || !remaining.some(s => s.id === current) ? remaining[0].id : current);
+    } catch (error) {
+      reportError('Gagal Menghapus Percakapan', error);
+    }
+  }, [reportError]);
+
+  return {
+    sessions,
+    activeSessionId,
+    selectSession: setActiveSessionId,
+    createSession,
+    renameSession,
+    deleteSession,
+    importSession,
+    refresh,
+  };
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { liveAnalysis, type LiveAnalysisOutput } from '@/ai/flows';
+
+export const LIVE_ANALYSIS_INTERVAL_OPTIONS_MS = [2000, 5000, 10000];
+export const DEFAULT_LIVE_ANALYSIS_INTERVAL_MS = 5000;
+const DEFAULT_MAX_IN_FLIGHT = 1;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export interface LiveAnalysisStatus {
+  standingQuestion: string;
+  observation: string | null;
+  triggered: boolean;
+  lastUpdatedAt: number | null;
+  framesSent: number;
+  framesSkipped: number; // Ticks skipped because a request was in flight, the chat was busy, or no frame was available
+  error: string | null;
+}
+
+interface UseLiveAnalysisOptions {
+  captureFrame: () => string | null;
+  isBusy: boolean; // While true (e.g. a chat answer is in flight), ticks are skipped
+  onResult: (result: LiveAnalysisOutput, previous: LiveAnalysisOutput | null, frame: string) => void;
+  onStopped?: (reason: string) => void; // Called when live mode stops itself after repeated failures
+  maxInFlight?: number;
+}
+
+/**
+ * Periodically captures frames and evaluates them against a standing question with the
+ * live-analysis flow. Ticks are skipped rather than queued when the limit of in-flight
+ * requests is reached, so a slow model never builds up a backlog of stale frames.
+ */
+export function useLiveAnalysis({
+  captureFrame,
+  isBusy,
+  onResult,
+  onStopped,
+  maxInFlight = DEFAULT_MAX_IN_FLIGHT,
+}: UseLiveAnalysisOptions) {
+  const [isLive, setIsLive] = useState(false);
+  const [intervalMs, setIntervalMs] = useState(DEFAULT_LIVE_ANALYSIS_INTERVAL_MS);
+  const [status, setStatus] = useState<LiveAnalysisStatus | null>(null);
+
+  const standingQuestionRef = useRef('');
+  const inFlightRef = useRef(0);
+  const previousResultRef = useRef<LiveAnalysisOutput | null>(null);
+  const failuresRef = useRef(0);
+  const sessionRef = useRef(0); // Bumped on start/stop so late responses from an old session are dropped
+  const optionsRef = useRef({ captureFrame, isBusy, onResult, onStopped, maxInFlight });
+  optionsRef.current = { captureFrame, isBusy, onResult, onStopped, maxInFlight };
+
+  const stop = useCallback(() => {
+    sessionRef.current += 1;
+    setIsLive(false);
+  }, []);
+
+  const start = useCallback((standingQuestion: string) => {
+    sessionRef.current += 1;
+    standingQuestionRef.current = standingQuestion;
+    previousResultRef.current = null;
+    failuresRef.current = 0;
+    setStatus({
+      standingQuestion,
+      observation: null,
+      triggered: false,
+      lastUpdatedAt: null,
+      framesSent: 0,
+      framesSkipped: 0,
+      error: null,
+    });
+    setIsLive(true);
+  }, []);
+
+  const tick = useCallback(async () => {
+    const options = optionsRef.current;
+    const skip = () => setStatus(prev => prev && { ...prev, framesSkipped: prev.framesSkipped + 1 });
+
+    if (inFlightRef.current >= options.maxInFlight || options.isBusy) {
+      skip();
+      return;
+    }
+    const frame = options.captureFrame();
+    if (!frame) {
+      console.warn('useLiveAnalysis: No frame available, skipping tick.');
+      skip();
+      return;
+    }
+
+    const session = sessionRef.current;
+    inFlightRef.current += 1;
+    setStatus(prev => prev && { ...prev, framesSent: prev.framesSent + 1 });
+    try {
+      const result = await liveAnalysis({
+        photoDataUri: frame,
+        standingQuestion: standingQuestionRef.current,
+        previousObservation: previousResultRef.current?.observation,
+      });
+      if (session !== sessionRef.current) return;
+      failuresRef.current = 0;
+      optionsRef.current.onResult(result, previousResultRef.current, frame);
+      previousResultRef.current = result;
+      setStatus(prev => prev && {
+        ...prev,
+        observation: result.observation,
+        triggered: result.triggered,
+        lastUpdatedAt: Date.now(),
+        error: null,
+      });
+    } catch (error) {
+      if (session !== sessionRef.current) return;
+      console.error('useLiveAnalysis: Live analysis request failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Terjadi kesalahan yang tidak diketahui.';
+      failuresRef.current += 1;
+      setStatus(prev => prev && { ...prev, error: errorMessage });
+      if (failuresRef.current >= MAX_CONSECUTIVE_FAILURES) {
+        stop();
+        optionsRef.current.onStopped?.(errorMessage);
+      }
+    } finally {
+      inFlightRef.current -= 1;
+    }
+  }, [stop]);
+
+  useEffect(() => {
+    if (!isLive) return;
+    tick();
+    const timer = setInterval(tick, intervalMs);
+    return () => clearInterval(timer);
+  }, [isLive, intervalMs, tick]);
+
+  useEffect(() => {
+    // Drop any in-flight result when the component using the hook unmounts.
+    return () => {
+      sessionRef.current += 1;
+    };
+  }, []);
+
+  return { isLive, status, intervalMs, setIntervalMs, start, stop };
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { DEFAULT_SCENE_CHANGE_OPTIONS, SceneChangeDetector, type SceneChangeOptions, type SceneState } from '@/lib/scene-change';
+
+export const SCENE_SAMPLE_INTERVAL_MS = 500;
+export const DEFAULT_SCENE_QUESTION = 'Apa yang baru atau berubah di depan kamera?';
+
+export interface SceneWatchStatus {
+  question: string;
+  state: SceneState;
+  questionsAsked: number;
+  lastAskedAt: number | null;
+  cooldownRemainingMs: number; // A settled new scene waits this long before it is asked about
+}
+
+interface UseSceneChangeTriggerOptions {
+  sampleSignature: () => Uint8Array | null;
+  isBusy: boolean; // While true (e.g. an answer is in flight), sampling pauses
+  onSceneChange: (question: string, change: number) => void;
+  detectorOptions?: SceneChangeOptions;
+}
+
+/**
+ * Samples small frame signatures and asks the configured question whenever the view settles on
+ * a scene that differs from the one last asked about (see src/lib/scene-change.ts). The scene
+ * shown when watching starts is the baseline, so starting never asks by itself.
+ */
+export function useSceneChangeTrigger({
+  sampleSignature,
+  isBusy,
+  onSceneChange,
+  detectorOptions = DEFAULT_SCENE_CHANGE_OPTIONS,
+}: UseSceneChangeTriggerOptions) {
+  const [isWatching, setIsWatching] = useState(false);
+  const [status, setStatus] = useState<SceneWatchStatus | null>(null);
+
+  const detectorRef = useRef(new SceneChangeDetector(detectorOptions));
+  const questionRef = useRef('');
+  const optionsRef = useRef({ sampleSignature, isBusy, onSceneChange });
+  optionsRef.current = { sampleSignature, isBusy, onSceneChange };
+
+  useEffect(() => {
+    detectorRef.current = new SceneChangeDetector(detectorOptions);
+  }, [detectorOptions]);
+
+  const stop = useCallback(() => {
+    setIsWatching(false);
+  }, []);
+
+  const start = useCallback((question: string) => {
+    questionRef.current = question;
+    detectorRef.current.reset();
+    setStatus({ question, state: 'stable', questionsAsked: 0, lastAskedAt: null, cooldownRemainingMs: 0 });
+    setIsWatching(true);
+  }, []);
+
+  const tick = useCallback(() => {
+    const options = optionsRef.current;
+    // Changes while an answer is in flight are picked up once it is done.
+    if (options.isBusy) return;
+    const signature = options.sampleSignature();
+    if (!signature) return;
+
+    const detector = detectorRef.current;
+    const event = detector.update(signature);
+    const cooldownRemainingMs = detector.cooldownRemainingMs();
+    setStatus(prev => {
+      if (!prev) return prev;
+      const next = event
+        ? { ...prev, state: detector.state, questionsAsked: prev.questionsAsked + 1, lastAskedAt: Date.now(), cooldownRemainingMs }
+        : { ...prev, state: detector.state, cooldownRemainingMs };
+      // Skip the re-render when nothing visible changed.
+      return !event && prev.state === next.state && Math.ceil(prev.cooldownRemainingMs / 1000) === Math.ceil(cooldownRemainingMs / 1000) ? prev : next;
+    });
+    if (event) {
+      console.log(`useSceneChangeTrigger: Scene settled after a change of ${(event.change * 100).toFixed(1)}%, asking "${questionRef.current}".`);
+      options.onSceneChange(questionRef.current, event.change);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isWatching) return;
+    const timer = setInterval(tick, SCENE_SAMPLE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isWatching, tick]);
+
+  return { isWatching, status, start, stop };
+}
@@ -0,0 +1,62 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiError } from './errors';
+
+/**
+ * API-key authentication for the public REST API.
+ *
+ * Keys are configured in `VISIONAI_API_KEYS` (comma-separated, so keys can be rotated).
+ * Clients send one as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * Without configured keys the API is disabled rather than open.
+ */
+
+function configuredKeys(): string[] {
+  return (process.env.VISIONAI_API_KEYS ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+// Hashing first gives equal-length buffers, so the comparison is constant-time regardless of key length.
+function keysMatch(candidate: string, key: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(candidate), digest(key));
+}
+
+function presentedKey(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || request.headers.get('x-api-key')?.trim() || null;
+}
+
+export function authenticateApiRequest(request: Request): void {
+  const keys = configuredKeys();
+  if (keys.length === 0) {
+    throw new ApiError(503, 'api_disabled', 'API publik belum dikonfigurasi (VISIONAI_API_KEYS kosong).');
+  }
+  const candidate = presentedKey(request);
+  if (!candidate) {
+    throw new ApiError(401, 'unauthorized', 'Kunci API diperlukan (Authorization: Bearer <kunci> atau X-API-Key).');
+  }
+  // Check every key so the response time does not reveal which one matched.
+  const matched = keys.reduce((found, key) => keysMatch(candidate, key) || found, false);
+  if (!matched) {
+    throw new ApiError(401, 'unauthorized', 'Kunci API tidak valid.');
+  }
+}
+
+/**
+ * For the app's own endpoints, which the browser calls without an API key: only pages served by
+ * this app may call them. Browsers send `Sec-Fetch-Site` (older ones only `Origin`) and scripts on
+ * other sites cannot change either. A non-browser client can, so the rate limit still applies.
+ */
+export function assertSameOriginRequest(request: Request): void {
+  const fetchSite = request.headers.get('sec-fetch-site');
+  const origin = request.headers.get('origin');
+  // Hosts only: behind a proxy that ends TLS the request itself may arrive over http.
+  const sameOrigin = fetchSite
+    ? fetchSite === 'same-origin'
+    : !!origin && URL.canParse(origin) && new URL(origin).host === request.headers.get('host');
+  if (!sameOrigin) {
+    throw new ApiError(403, 'forbidden', 'Endpoint ini hanya untuk aplikasi VisionAI sendiri; gunakan /api/v1 dengan kunci API.');
+  }
+}
@@ -0,0 +1,129 @@
+import type { z } from 'genkit';
+import {
+  ContextualChatWithVisionInputSchema,
+  type ContextualChatWithVisionInput,
+} from '@/ai/flows/contextual-chat-with-vision';
+import { ApiError, type ApiErrorDetail } from './errors';
+
+export const MAX_CHAT_REQUEST_BYTES = 15 * 1024 * 1024;
+export const MAX_CHAT_IMAGE_BYTES = 10 * 1024 * 1024;
+export const CHAT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+// Multipart fields that carry plain text, and those that carry JSON.
+const TEXT_FORM_FIELDS = ['question', 'historySummary', 'promptVersion'] as const;
+const JSON_FORM_FIELDS = ['history', 'focus', 'region', 'bypassCache', 'mode'] as const;
+
+function issuesToDetails(error: z.ZodError): ApiErrorDetail[] {
+  return error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+}
+
+const tooLarge = () => new ApiError(413, 'payload_too_large', `Permintaan melebihi ${MAX_CHAT_REQUEST_BYTES / (1024 * 1024)} MB.`);
+
+/**
+ * Reads the request body, stopping as soon as it passes MAX_CHAT_REQUEST_BYTES. Content-Length is
+ * only checked first to fail fast; a chunked body has none, so the bytes are counted as they arrive.
+ */
+export async function readRequestBody(request: Request): Promise<Uint8Array> {
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_CHAT_REQUEST_BYTES) throw tooLarge();
+  if (!request.body) return new Uint8Array();
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_CHAT_REQUEST_BYTES) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/** Parses a body read with readRequestBody as JSON. */
+export function parseJsonBody(body: Uint8Array): unknown {
+  try {
+    return JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    throw new ApiError(400, 'invalid_request', 'Body bukan JSON yang valid.');
+  }
+}
+
+async function fileToDataUri(file: File, field: string): Promise<string> {
+  if (!CHAT_IMAGE_TYPES.includes(file.type)) {
+    throw new ApiError(415, 'unsupported_media_type', `Tipe gambar "${file.type || 'tidak diketahui'}" pada "${field}" tidak didukung. Gunakan ${CHAT_IMAGE_TYPES.join(', ')}.`);
+  }
+  if (file.size > MAX_CHAT_IMAGE_BYTES) {
+    throw new ApiError(413, 'payload_too_large', `Gambar "${field}" melebihi ${MAX_CHAT_IMAGE_BYTES / (1024 * 1024)} MB.`);
+  }
+  const base64 = Buffer.from(await file.arrayBuffer()).toString('base64');
+  return `data:${file.type};base64,${base64}`;
+}
+
+// Multipart: `image` and `contextImage` files, `question`, `historySummary` and `promptVersion` text, and `history`/`focus`/`region`/`bypassCache`/`mode` as JSON strings.
+async function readMultipartBody(request: Request, contentType: string): Promise<Record<string, unknown>> {
+  const bytes = await readRequestBody(request);
+  let form: FormData;
+  try {
+    form = await new Response(bytes, { headers: { 'Content-Type': contentType } }).formData();
+  } catch {
+    throw new ApiError(400, 'invalid_request', 'Body multipart tidak dapat dibaca.');
+  }
+
+  const body: Record<string, unknown> = {};
+  for (const field of TEXT_FORM_FIELDS) {
+    const value = form.get(field);
+    if (typeof value === 'string') body[field] = value;
+  }
+
+  for (const field of JSON_FORM_FIELDS) {
+    const value = form.get(field);
+    if (typeof value !== 'string' || !value.trim()) continue;
+    try {
+      body[field] = JSON.parse(value);
+    } catch {
+      throw new ApiError(400, 'invalid_request', `Field "${field}" harus berisi JSON yang valid.`, [{ path: field, message: 'JSON tidak valid' }]);
+    }
+  }
+
+  const image = form.get('image');
+  if (image instanceof File) body.photoDataUri = await fileToDataUri(image, 'image');
+  const contextImage = form.get('contextImage');
+  if (contextImage instanceof File) body.contextPhotoDataUri = await fileToDataUri(contextImage, 'contextImage');
+  return body;
+}
+
+/** `Cache-Control: no-cache` (or `no-store`) skips the response cache, like the `bypassCache` field. */
+export function requestsFreshAnswer(request: Request): boolean {
+  return /\bno-(cache|store)\b/i.test(request.headers.get('cache-control') ?? '');
+}
+
+/** Reads a JSON or multipart chat request and validates it against the flow's input schema. */
+export async function parseChatRequest(request: Request): Promise<ContextualChatWithVisionInput> {
+  const contentType = request.headers.get('content-type') ?? '';
+  let body: unknown;
+  if (contentType.startsWith('application/json')) {
+    body = parseJsonBody(await readRequestBody(request));
+  } else if (contentType.startsWith('multipart/form-data')) {
+    body = await readMultipartBody(request, contentType);
+  } else {
+    throw new ApiError(415, 'unsupported_media_type', 'Gunakan Content-Type application/json atau multipart/form-data.');
+  }
+
+  const parsed = ContextualChatWithVisionInputSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new ApiError(400, 'invalid_request', 'Permintaan tidak sesuai skema.', issuesToDetails(parsed.error));
+  }
+  if (!parsed.data.question.trim()) {
+    throw new ApiError(400, 'invalid_request', 'Pertanyaan tidak boleh kosong.', [{ path: 'question', message: 'Wajib diisi' }]);
+  }
+  return requestsFreshAnswer(request) ? { ...parsed.data, bypassCache: true } : parsed.data;
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import type { FlowError } from '@/ai/flow-errors';
+import type { FlowErrorCode } from '@/types';
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'api_disabled'
+  | 'unsupported_media_type'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'model_unavailable'
+  | 'model_empty_output'
+  | 'safety_blocked'
+  | 'tool_failed'
+  | 'internal_error';
+
+export interface ApiErrorDetail {
+  path: string;
+  message: string;
+}
+
+// Every error response of the public API has this shape.
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: ApiErrorDetail[];
+  };
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details?: ApiErrorDetail[],
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// HTTP status and API code for each error a flow can report.
+const FLOW_ERROR_STATUS: Record<FlowErrorCode, [number, ApiErrorCode]> = {
+  RATE_LIMITED: [429, 'rate_limited'],
+  MODEL_UNAVAILABLE: [503, 'model_unavailable'],
+  MODEL_EMPTY_OUTPUT: [502, 'model_empty_output'],
+  IMAGE_TOO_LARGE: [413, 'payload_too_large'],
+  SAFETY_BLOCKED: [422, 'safety_blocked'],
+  TOOL_FAILED: [502, 'tool_failed'],
+  INTERNAL: [500, 'internal_error'],
+};
+
+export function flowErrorToApiError(error: FlowError): ApiError {
+  const [status, code] = FLOW_ERROR_STATUS[error.code];
+  const details = error.tool ? [{ path: 'tool', message: error.tool }] : undefined;
+  return new ApiError(status, code, error.message, details, error.retryAfterMs);
+}
+
+/** Headers that accompany an error status: a Bearer challenge on 401, Retry-After when known. */
+export function apiErrorHeaders(error: ApiError): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  if (error.status === 401) headers['WWW-Authenticate'] = 'Bearer';
+  if (error.retryAfterMs !== undefined) headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+export function apiErrorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) } },
+      {
+        status: error.status,
+        headers: apiErrorHeaders(error),
+      },
+    );
+  }
+  console.error('[api] Unhandled error:', error);
+  return NextResponse.json(
+    { error: { code: 'internal_error', message: 'Terjadi kesalahan internal.' } },
+    { status: 500 },
+  );
+}
@@ -0,0 +1,230 @@
+import { NextResponse } from 'next/server';
+import { z } from 'genkit';
+import type {
+  ContextualChatWithVisionInput,
+  ContextualChatWithVisionOutput,
+  ContextualChatWithVisionSuccess,
+} from '@/ai/flows/contextual-chat-with-vision';
+import { parseJsonBody, readRequestBody } from './chat-request';
+import { ApiError, apiErrorHeaders, flowErrorToApiError, type ApiErrorDetail } from './errors';
+
+/**
+ * Translation between the OpenAI chat-completions protocol and the vision flow.
+ * - The last user message becomes `question`; its first `image_url` part becomes `photoDataUri`.
+ * - Earlier user/assistant messages become `history` (text only). System and developer
+ *   messages are passed on as history entries, since the flow has no system input.
+ * - `countedObjects`, `citations`, the answering `model`, `cache`, `usage`, `mode` and `promptVersion` metadata are returned in an extra top-level `visionai` field.
+ * - `Cache-Control: no-cache` on the request skips the response cache.
+ * Only data URIs are accepted as images; the server never fetches remote URLs.
+ */
+
+export const OPENAI_COMPAT_MODEL_ID = 'visionai';
+
+const ContentPartSchema = z.union([
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({
+    type: z.literal('image_url'),
+    image_url: z.union([z.string(), z.object({ url: z.string(), detail: z.string().optional() })]),
+  }),
+]);
+
+const ChatCompletionMessageSchema = z.object({
+  role: z.enum(['system', 'developer', 'user', 'assistant', 'tool']),
+  content: z.union([z.string(), z.array(ContentPartSchema)]).nullable().optional(),
+});
+
+// Sampling parameters such as temperature are accepted and ignored; the flow's model config applies.
+export const ChatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(ChatCompletionMessageSchema).min(1),
+  stream: z.boolean().optional(),
+}).passthrough();
+
+export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+type ChatCompletionMessage = z.infer<typeof ChatCompletionMessageSchema>;
+
+function messageText(message: ChatCompletionMessage): string {
+  if (!message.content) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .flatMap(part => (part.type === 'text' ? [part.text] : []))
+    .join('\n');
+}
+
+function messageImages(message: ChatCompletionMessage): string[] {
+  if (!message.content || typeof message.content === 'string') return [];
+  return message.content.flatMap(part => {
+    if (part.type !== 'image_url') return [];
+    return [typeof part.image_url === 'string' ? part.image_url : part.image_url.url];
+  });
+}
+
+/** Reads and validates a JSON chat-completions request body. */
+export async function parseChatCompletionRequest(request: Request): Promise<ChatCompletionRequest> {
+  if (!(request.headers.get('content-type') ?? '').startsWith('application/json')) {
+    throw new ApiError(415, 'unsupported_media_type', 'Gunakan Content-Type application/json.');
+  }
+
+  const body = parseJsonBody(await readRequestBody(request));
+  const parsed = ChatCompletionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const details: ApiErrorDetail[] = parsed.error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+    throw new ApiError(400, 'invalid_request', 'Permintaan chat completions tidak valid.', details);
+  }
+  return parsed.data;
+}
+
+export function toFlowInput(request: ChatCompletionRequest): ContextualChatWithVisionInput {
+  const lastUserIndex = request.messages.map(msg => msg.role).lastIndexOf('user');
+  if (lastUserIndex === -1) {
+    throw new ApiError(400, 'invalid_request', 'Diperlukan setidaknya satu pesan dengan role "user".', [{ path: 'messages', message: 'Tidak ada pesan user' }]);
+  }
+  const lastUser = request.messages[lastUserIndex];
+  const question = messageText(lastUser).trim();
+  if (!question) {
+    throw new ApiError(400, 'invalid_request', 'Pesan user terakhir harus berisi teks pertanyaan.', [{ path: `messages.${lastUserIndex}.content`, message: 'Teks kosong' }]);
+  }
+
+  const [photoDataUri] = messageImages(lastUser);
+  if (photoDataUri && !photoDataUri.startsWith('data:image/')) {
+    throw new ApiError(400, 'invalid_request', 'image_url harus berupa data URI (data:image/...;base64,...). URL jarak jauh tidak didukung.', [{ path: `messages.${lastUserIndex}.content`, message: 'Bukan data URI gambar' }]);
+  }
+
+  const history = request.messages.slice(0, lastUserIndex).flatMap(msg => {
+    const content = messageText(msg).trim();
+    if (!content || msg.role === 'tool') return [];
+    if (msg.role === 'system' || msg.role === 'developer') return [{ role: 'user' as const, content: `[Instruksi sistem] ${content}` }];
+    return [{ role: msg.role, content }];
+  });
+
+  return { question, photoDataUri, history };
+}
+
+const completionId = () => `chatcmpl-${crypto.randomUUID().replace(/-/g, '')}`;
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// Extra, non-OpenAI field with the structured parts of the answer.
+function visionaiExtras(output: ContextualChatWithVisionSuccess) {
+  return { countedObjects: output.countedObjects ?? [], citations: output.citations ?? [], model: output.model, cache: output.cache, usage: output.usage, mode: output.mode, promptVersion: output.promptVersion };
+}
+
+function openAIUsage(output: ContextualChatWithVisionSuccess) {
+  const usage = output.usage;
+  return {
+    prompt_tokens: usage?.inputTokens ?? 0,
+    completion_tokens: usage?.outputTokens ?? 0,
+    total_tokens: usage?.totalTokens ?? 0,
+  };
+}
+
+export function toChatCompletion(output: ContextualChatWithVisionSuccess, model: string) {
+  return {
+    id: completionId(),
+    object: 'chat.completion',
+    created: nowSeconds(),
+    model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content: output.answer, refusal: null },
+      logprobs: null,
+      finish_reason: 'stop',
+    }],
+    usage: openAIUsage(output),
+    visionai: visionaiExtras(output),
+  };
+}
+
+/**
+ * Server-sent events in the `chat.completion.chunk` format. `stream` yields the full partial
+ * answer so far (as the flow streams it); only the new text is sent as each delta.
+ * `abortController` is the one whose signal the flow runs with; it is aborted when the client
+ * stops reading, and nothing more is sent after that.
+ */
+export function toChatCompletionStream(
+  stream: AsyncIterable<{ answer: string }>,
+  output: Promise<ContextualChatWithVisionOutput>,
+  model: string,
+  abortController: AbortController,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const id = completionId();
+  const created = nowSeconds();
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null, extra: Record<string, unknown> = {}) =>
+    encoder.encode(`data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, logprobs: null, finish_reason: finishReason }],
+      ...extra,
+    })}\n\n`);
+
+  const { signal } = abortController;
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: Uint8Array) => {
+        if (!signal.aborted) controller.enqueue(data);
+      };
+      let sent = '';
+      const sendUpTo = (answer: string) => {
+        // Partial answers only grow; anything that is not an extension of what was sent is skipped.
+        if (answer.length > sent.length && answer.startsWith(sent)) {
+          send(chunk({ content: answer.slice(sent.length) }));
+          sent = answer;
+        }
+      };
+
+      send(chunk({ role: 'assistant', content: '' }));
+      try {
+        for await (const partial of stream) {
+          if (signal.aborted) break;
+          sendUpTo(partial.answer);
+        }
+        const final = await output;
+        if (final.status === 'error') {
+          send(encoder.encode(`data: ${JSON.stringify(openAIErrorBody(flowErrorToApiError(final.error)))}\n\n`));
+        } else {
+          sendUpTo(final.answer);
+          send(chunk({}, 'stop', { usage: openAIUsage(final), visionai: visionaiExtras(final) }));
+        }
+      } catch (error) {
+        if (!signal.aborted) console.error('[openai-compat] Streaming failed:', error);
+        const message = error instanceof Error ? error.message : 'Terjadi kesalahan internal.';
+        send(encoder.encode(`data: ${JSON.stringify(openAIErrorBody(new ApiError(500, 'internal_error', message)))}\n\n`));
+      }
+      send(encoder.encode('data: [DONE]\n\n'));
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the client's cancel
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+}
+
+function openAIErrorBody(error: ApiError) {
+  const details = error.details?.map(detail => `${detail.path}: ${detail.message}`).join('; ');
+  return {
+    error: {
+      message: details ? `${error.message} (${details})` : error.message,
+      type: error.code,
+      param: error.details?.[0]?.path ?? null,
+      code: error.code,
+    },
+  };
+}
+
+/** Like `apiErrorResponse`, but in the `{ error: { message, type, param, code } }` shape OpenAI clients parse. */
+export function openAIErrorResponse(error: unknown): NextResponse {
+  if (!(error instanceof ApiError)) {
+    console.error('[openai-compat] Unhandled error:', error);
+    return NextResponse.json(
+      { error: { message: 'Terjadi kesalahan internal.', type: 'internal_error', param: null, code: 'internal_error' } },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json(openAIErrorBody(error), { status: error.status, headers: apiErrorHeaders(error) });
+}
@@ -0,0 +1,130 @@
+import { toJsonSchema } from 'genkit/schema';
+import {
+  ContextualChatWithVisionInputSchema,
+  ContextualChatWithVisionSuccessSchema,
+} from '@/ai/flows/contextual-chat-with-vision';
+import { CHAT_IMAGE_TYPES, MAX_CHAT_IMAGE_BYTES } from './chat-request';
+
+// Request and response schemas come from the flow's Zod schemas, so the document cannot drift from validation.
+const jsonSchema = (schema: Parameters<typeof toJsonSchema>[0]['schema']) => {
+  const { $schema: _$schema, ...rest } = (toJsonSchema({ schema }) ?? {}) as Record<string, unknown>;
+  return rest;
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'VisionAI API',
+      version: '1.0.0',
+      description: 'Tanya jawab kontekstual tentang gambar: penghitungan objek dengan kotak pembatas, riwayat percakapan, dan sitasi pencarian web.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      '/chat': {
+        post: {
+          operationId: 'contextualChatWithVision',
+          summary: 'Ajukan pertanyaan, opsional dengan gambar',
+          description: 'Jawaban untuk gambar (hash perseptual), pertanyaan dan riwayat yang sama dapat diambil dari cache; lihat `cache` pada respons. Kirim `bypassCache: true` atau header `Cache-Control: no-cache` untuk jawaban baru. `history` yang melebihi anggaran token server dipotong mulai dari pesan terlama; untuk percakapan panjang, kirim ringkasan giliran lama di `historySummary`. `mode` memilih persona dan tugas asisten (`general`, `accessibility`, `inventory`, `document`, `tutor`, atau mode kustom dengan `instructions` sendiri). `promptVersion` memilih versi template prompt untuk perbandingan A/B; versi yang menjawab dikembalikan di `promptVersion`.',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/ChatRequest' } },
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['question'],
+                  properties: {
+                    question: { type: 'string' },
+                    image: { type: 'string', format: 'binary', description: `Gambar untuk giliran ini (${CHAT_IMAGE_TYPES.join(', ')}; maks. ${MAX_CHAT_IMAGE_BYTES / (1024 * 1024)} MB).` },
+                    contextImage: { type: 'string', format: 'binary', description: 'Frame lengkap tempat `image` dipotong; hanya bersama `focus` atau `region`.' },
+                    history: { type: 'string', description: 'JSON array `history` seperti pada body JSON.' },
+                    historySummary: { type: 'string', description: 'Ringkasan giliran yang lebih lama dari `history`.' },
+                    focus: { type: 'string', description: 'JSON objek `focus` seperti pada body JSON.' },
+                    region: { type: 'string', description: 'JSON objek `region` seperti pada body JSON.' },
+                    bypassCache: { type: 'string', enum: ['true', 'false'], description: 'Lewati cache jawaban, seperti `bypassCache` pada body JSON.' },
+                    mode: { type: 'string', description: 'JSON objek `mode` seperti pada body JSON.' },
+                    promptVersion: { type: 'string', description: 'Versi template prompt, misalnya `v1`.' },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'Jawaban terstruktur.',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/ChatResponse' } } },
+            },
+            '400': errorResponse('Permintaan tidak valid; `details` berisi masalah per field.'),
+            '401': errorResponse('Kunci API tidak ada atau tidak valid.'),
+            '413': errorResponse('Permintaan atau gambar terlalu besar.'),
+            '415': errorResponse('Content-Type atau tipe gambar tidak didukung.'),
+            '422': errorResponse('Jawaban diblokir oleh filter keamanan model (`safety_blocked`).'),
+            '429': errorResponse('Kuota model habis untuk semua model (`rate_limited`); lihat header Retry-After.'),
+            '500': errorResponse('Kesalahan internal.'),
+            '502': errorResponse('Model tidak memberi output (`model_empty_output`) atau pencarian internet gagal (`tool_failed`).'),
+            '503': errorResponse('API belum dikonfigurasi di server (`api_disabled`) atau model sedang tidak tersedia (`model_unavailable`).'),
+          },
+        },
+      },
+      '/chat/completions': {
+        post: {
+          operationId: 'createChatCompletion',
+          summary: 'Adaptor kompatibel OpenAI (pesan teks dan `image_url` berupa data URI, opsional SSE dengan `stream: true`)',
+          description: 'Pesan user terakhir menjadi pertanyaan; pesan sebelumnya menjadi riwayat. `countedObjects` dan `citations` dikembalikan di field tambahan `visionai`. Error memakai bentuk OpenAI `{ error: { message, type, param, code } }`.',
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['messages'] } } } },
+          responses: {
+            '200': {
+              description: 'Objek `chat.completion`, atau aliran `chat.completion.chunk` yang diakhiri `data: [DONE]`.',
+              content: { 'application/json': { schema: { type: 'object' } }, 'text/event-stream': { schema: { type: 'string' } } },
+            },
+          },
+        },
+      },
+      '/models': {
+        get: {
+          operationId: 'listModels',
+          summary: 'Daftar model kompatibel OpenAI',
+          responses: { '200': { description: 'Objek `list` berisi satu model.' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: {
+        ChatRequest: jsonSchema(ContextualChatWithVisionInputSchema),
+        ChatResponse: jsonSchema(ContextualChatWithVisionSuccessSchema),
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: {
+                code: { type: 'string', enum: ['invalid_request', 'unauthorized', 'api_disabled', 'unsupported_media_type', 'payload_too_large', 'rate_limited', 'model_unavailable', 'model_empty_output', 'safety_blocked', 'tool_failed', 'internal_error'] },
+                message: { type: 'string' },
+                details: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { path: { type: 'string' }, message: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
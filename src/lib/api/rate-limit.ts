@@ -0,0 +1,75 @@
+import { nonNegativeIntFromEnv, positiveIntFromEnv } from '@/lib/env';
+import { ApiError } from './errors';
+
+/**
+ * Fixed-window request limits per client, kept in memory, with one window per scope so live-mode
+ * frames do not use up the chat's allowance.
+ *
+ * Clients are told apart by an address the hosting platform or proxy sets, never by one the client
+ * chose:
+ * - `CLIENT_IP_HEADER` names a header the platform overwrites on every request, e.g.
+ *   `x-nf-client-connection-ip` on Netlify or `x-real-ip` behind an nginx that sets it;
+ * - otherwise the address is the `X-Forwarded-For` entry `TRUSTED_PROXY_HOPS` (default 1) from the
+ *   right. Each proxy appends the address it got the request from, so entries further left are
+ *   whatever the client sent.
+ * A request without such an address is refused instead of sharing a window with other clients.
+ *
+ * The counters live in one server instance, so on a serverless host each instance enforces the
+ * limit on its own; it bounds abuse, it is not an exact quota. Limits are per minute, `0` disables
+ * one: CHAT_RATE_LIMIT_PER_MINUTE (default 20), LIVE_RATE_LIMIT_PER_MINUTE (default 40) and
+ * SUMMARY_RATE_LIMIT_PER_MINUTE (default 10).
+ */
+
+export type RateLimitScope = 'chat' | 'live' | 'summary';
+
+const WINDOW_MS = 60_000;
+const MAX_TRACKED_CLIENTS = 10_000;
+
+const LIMITS_PER_MINUTE: Record<RateLimitScope, number> = {
+  chat: nonNegativeIntFromEnv(process.env.CHAT_RATE_LIMIT_PER_MINUTE, 20),
+  // Live mode asks every 2 to 10 seconds while it runs.
+  live: nonNegativeIntFromEnv(process.env.LIVE_RATE_LIMIT_PER_MINUTE, 40),
+  summary: nonNegativeIntFromEnv(process.env.SUMMARY_RATE_LIMIT_PER_MINUTE, 10),
+};
+
+const TRUSTED_PROXY_HOPS = positiveIntFromEnv(process.env.TRUSTED_PROXY_HOPS, 1);
+
+interface RateWindow {
+  startedAt: number;
+  count: number;
+}
+
+const windows = new Map<string, RateWindow>();
+
+// `Headers`, or what `headers()` from next/headers returns in a server action.
+type RequestHeaders = Pick<Headers, 'get'>;
+
+function clientAddress(headers: RequestHeaders): string | null {
+  const platformHeader = process.env.CLIENT_IP_HEADER?.trim();
+  if (platformHeader) return headers.get(platformHeader)?.trim() || null;
+  const hops = (headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  return hops.length >= TRUSTED_PROXY_HOPS ? hops[hops.length - TRUSTED_PROXY_HOPS] : null;
+}
+
+/** Counts a request against its client's window for `scope`; throws a 429 ApiError once the window is full. */
+export function enforceRateLimit(scope: RateLimitScope, headers: RequestHeaders, now = Date.now()): void {
+  const limit = LIMITS_PER_MINUTE[scope];
+  if (limit === 0) return;
+  const address = clientAddress(headers);
+  if (!address) {
+    console.warn('[rate-limit] No client address on the request; check CLIENT_IP_HEADER and TRUSTED_PROXY_HOPS.');
+    throw new ApiError(400, 'invalid_request', 'Alamat klien tidak dapat ditentukan.');
+  }
+  const key = `${scope}:${address}`;
+  let window = windows.get(key);
+  if (!window || now - window.startedAt >= WINDOW_MS) {
+    if (windows.size >= MAX_TRACKED_CLIENTS) windows.clear(); // Bounded memory; a reset only forgives old windows
+    window = { startedAt: now, count: 0 };
+    windows.set(key, window);
+  }
+  window.count++;
+  if (window.count > limit) {
+    const retryAfterMs = window.startedAt + WINDOW_MS - now;
+    throw new ApiError(429, 'rate_limited', `Terlalu banyak permintaan; maksimal ${limit} per menit.`, undefined, retryAfterMs);
+  }
+}
@@ -0,0 +1,101 @@
+import type { AssistantMode, AssistantModeRef, BuiltInAssistantModeId } from '@/types';
+
+/**
+ * Assistant modes: the persona, tools, output expectations and speech defaults of the chat.
+ * Built-in presets are defined here and looked up by id on the server, so a client can only
+ * choose them, not change them. Custom modes travel with each request (see `toModeInput`).
+ */
+
+export const DEFAULT_ASSISTANT_MODE_ID: BuiltInAssistantModeId = 'general';
+
+export const ASSISTANT_MODE_PRESETS: Record<BuiltInAssistantModeId, AssistantMode> = {
+  general: {
+    id: 'general',
+    label: 'Asisten umum',
+    description: 'Menjawab pertanyaan apa pun tentang kamera maupun topik umum.',
+    instructions: 'Anda adalah chatbot AI serbaguna yang cerdas. Jawab pertanyaan tentang gambar maupun topik umum secara jelas, akurat, dan relevan.',
+    tools: ['searchInternetTool'],
+    countObjects: 'onRequest',
+    tts: { enabled: true, rate: 1 },
+  },
+  accessibility: {
+    id: 'accessibility',
+    label: 'Pendeskripsi aksesibilitas',
+    description: 'Menggambarkan sekitar untuk pengguna tunanetra.',
+    instructions: `Anda membantu pengguna tunanetra atau low vision memahami sekitarnya melalui kamera. Jawaban Anda akan dibacakan dengan suara.
+- Mulailah dengan hal terpenting untuk keselamatan dan orientasi: rintangan, tangga, kendaraan, orang, dan arah (kiri, kanan, depan, jarak kira-kira).
+- Gambarkan posisi benda relatif terhadap pengguna, bukan terhadap gambar, dan sebutkan warna, teks, serta tanda yang terlihat.
+- Gunakan kalimat pendek tanpa format Markdown, tabel, atau daftar panjang. Jangan menggunakan kata seperti "seperti yang terlihat".
+- Jika gambar buram, gelap, atau tidak memuat hal yang ditanyakan, katakan dengan jelas dan beri saran cara mengarahkan kamera.`,
+    tools: ['searchInternetTool'],
+    countObjects: 'onRequest',
+    tts: { enabled: true, rate: 1.1 },
+  },
+  inventory: {
+    id: 'inventory',
+    label: 'Penghitung inventaris',
+    description: 'Menghitung dan menandai barang di setiap gambar.',
+    instructions: `Anda membantu mencatat inventaris dari gambar kamera.
+- Hitung setiap jenis barang yang terlihat atau yang disebut pengguna, tandai setiap instansinya, dan sebutkan totalnya per jenis.
+- Jawab singkat dalam bentuk daftar "nama: jumlah", lalu sebutkan barang yang tertutup sebagian atau meragukan secara terpisah.
+- Jangan menebak jumlah barang yang tidak terlihat.`,
+    tools: [],
+    countObjects: 'always',
+    tts: { enabled: false, rate: 1 },
+  },
+  document: {
+    id: 'document',
+    label: 'Pembaca dokumen',
+    description: 'Membaca dan merangkum teks, label, dan formulir.',
+    instructions: `Anda membaca teks dari gambar: dokumen, label, tanda, layar, dan kemasan.
+- Salin teks yang diminta persis seperti tertulis, pertahankan angka, tanggal, dan ejaan aslinya; tandai bagian yang tidak terbaca dengan [tidak terbaca].
+- Jika pengguna tidak meminta teks lengkap, rangkum isi dokumen dan sebutkan informasi penting seperti tanggal, jumlah, dan nama.
+- Jika teks terpotong atau terlalu kecil, minta pengguna mendekatkan kamera.`,
+    tools: [],
+    countObjects: 'never',
+    tts: { enabled: true, rate: 0.95 },
+  },
+  tutor: {
+    id: 'tutor',
+    label: 'Tutor',
+    description: 'Menjelaskan langkah demi langkah tanpa langsung memberi jawaban.',
+    instructions: `Anda adalah tutor yang sabar untuk pelajar. Gambar biasanya berisi soal, catatan, atau benda yang ingin dipahami.
+- Jelaskan konsep dan langkah penyelesaian secara bertahap dengan bahasa sederhana, dan ajukan pertanyaan pemandu.
+- Jangan langsung memberikan jawaban akhir soal latihan kecuali pengguna memintanya secara eksplisit setelah mencoba.
+- Periksa pekerjaan pengguna yang terlihat di gambar dan tunjukkan letak kesalahannya dengan ramah.`,
+    tools: ['searchInternetTool'],
+    countObjects: 'onRequest',
+    tts: { enabled: true, rate: 0.95 },
+  },
+};
+
+export const BUILT_IN_ASSISTANT_MODES = Object.values(ASSISTANT_MODE_PRESETS);
+
+export function isBuiltInAssistantModeId(id: string): id is BuiltInAssistantModeId {
+  return Object.prototype.hasOwnProperty.call(ASSISTANT_MODE_PRESETS, id);
+}
+
+/** The mode to apply for a request: a preset by id, the custom mode as sent, or the default. */
+export function resolveAssistantMode(mode: Partial<AssistantMode> & { id: string } | undefined): AssistantMode {
+  if (!mode) return ASSISTANT_MODE_PRESETS[DEFAULT_ASSISTANT_MODE_ID];
+  if (isBuiltInAssistantModeId(mode.id)) return ASSISTANT_MODE_PRESETS[mode.id];
+  if (!mode.instructions?.trim()) return ASSISTANT_MODE_PRESETS[DEFAULT_ASSISTANT_MODE_ID];
+  return {
+    id: mode.id,
+    label: mode.label?.trim() || 'Mode kustom',
+    description: mode.description ?? '',
+    instructions: mode.instructions.trim(),
+    tools: mode.tools ?? [],
+    countObjects: mode.countObjects ?? 'onRequest',
+    tts: mode.tts ?? ASSISTANT_MODE_PRESETS[DEFAULT_ASSISTANT_MODE_ID].tts,
+  };
+}
+
+/** What a request carries: only the id for presets, everything the server needs for custom modes. */
+export function toModeInput(mode: AssistantMode) {
+  if (isBuiltInAssistantModeId(mode.id)) return { id: mode.id };
+  const { id, label, instructions, tools, countObjects } = mode;
+  return { id, label, instructions, tools, countObjects };
+}
+
+export const toModeRef = (mode: AssistantMode): AssistantModeRef => ({ id: mode.id, label: mode.label });
@@ -0,0 +1,85 @@
+import type { ChatMessageData, HistorySummary } from '@/types';
+import { positiveIntFromEnv } from './env';
+
+/**
+ * Decides what of a conversation is sent with the next question, so long sessions stay fast and
+ * within the model's context:
+ * - the last `recentTurns` turns are sent verbatim;
+ * - older turns are folded into a running summary (see summarizeConversationFlow), in batches of
+ *   `summaryBatchTurns` so the summary is not regenerated on every turn;
+ * - the summary plus the verbatim history are kept within `tokenBudget` estimated tokens.
+ */
+
+export interface ChatHistoryItem {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatContextOptions {
+  recentTurns: number; // Question and answer pairs always sent verbatim
+  summaryBatchTurns: number; // Older turns wait until this many can be summarized at once
+  tokenBudget: number; // Estimated tokens for the summary plus the verbatim history
+}
+
+export const DEFAULT_CHAT_CONTEXT_OPTIONS: ChatContextOptions = {
+  recentTurns: positiveIntFromEnv(process.env.NEXT_PUBLIC_CHAT_HISTORY_RECENT_TURNS, 6),
+  summaryBatchTurns: 4,
+  tokenBudget: positiveIntFromEnv(process.env.NEXT_PUBLIC_CHAT_HISTORY_TOKEN_BUDGET, 4000),
+};
+
+// Roughly four characters per token for Latin-script text; only used to stay under a budget.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const historyTokens = (items: ChatHistoryItem[]) => items.reduce((total, item) => total + estimateTokens(item.content), 0);
+
+export const toHistoryItems = (messages: ChatMessageData[]): ChatHistoryItem[] =>
+  messages.map(msg => ({ role: msg.role, content: msg.content }));
+
+/**
+ * Drops the oldest items until the history fits `budget` estimated tokens. The newest item is
+ * always kept, shortened from the front when it alone is over budget.
+ */
+export function trimHistoryToBudget(history: ChatHistoryItem[], budget: number): ChatHistoryItem[] {
+  let start = 0;
+  while (start < history.length - 1 && historyTokens(history.slice(start)) > budget) start++;
+  const trimmed = history.slice(start);
+  const [only] = trimmed;
+  if (trimmed.length === 1 && estimateTokens(only.content) > budget) {
+    return [{ ...only, content: `…${only.content.slice(-Math.max(budget, 0) * CHARS_PER_TOKEN)}` }];
+  }
+  return trimmed;
+}
+
+export interface ChatContextPlan {
+  summary?: HistorySummary; // The stored summary, unless it no longer matches the messages
+  toSummarize: ChatMessageData[]; // Oldest first; fold these into the summary before asking
+  verbatim: ChatMessageData[]; // Oldest first; sent as history
+}
+
+/**
+ * Splits the messages before the current question (newest first, like ChatPanel) into the part
+ * already covered by `summary`, the part to summarize now and the part sent verbatim.
+ */
+export function planChatContext(
+  messages: ChatMessageData[],
+  summary: HistorySummary | undefined,
+  options: ChatContextOptions = DEFAULT_CHAT_CONTEXT_OPTIONS
+): ChatContextPlan {
+  const chronological = [...messages].reverse().filter(msg => !msg.isError && !msg.isCancelled && !msg.isStreaming && msg.content.trim());
+  const coveredCount = summary ? chronological.findIndex(msg => msg.id === summary.throughMessageId) + 1 : 0;
+  // The covered message is gone (e.g. the conversation was cleared), so the summary describes other messages.
+  const validSummary = coveredCount > 0 ? summary : undefined;
+  const uncovered = chronological.slice(coveredCount);
+
+  const summaryTokens = estimateTokens(validSummary?.text ?? '');
+  let cut = Math.max(0, uncovered.length - options.recentTurns * 2);
+  const overBudget = summaryTokens + historyTokens(toHistoryItems(uncovered)) > options.tokenBudget;
+  if (cut < options.summaryBatchTurns * 2 && !overBudget) {
+    return { summary: validSummary, toSummarize: [], verbatim: uncovered };
+  }
+  // Over budget even without the older turns: summarize recent turns too, but always keep the last one.
+  while (cut < uncovered.length - 2 && summaryTokens + historyTokens(toHistoryItems(uncovered.slice(cut))) > options.tokenBudget) cut++;
+  return { summary: validSummary, toSummarize: uncovered.slice(0, cut), verbatim: uncovered.slice(cut) };
+}
@@ -0,0 +1,229 @@
+import type { ChatMessageData, ChatSession, HistorySummary } from '@/types';
+
+/**
+ * Local persistence for conversations, backed by IndexedDB.
+ * - `sessions` holds one ChatSession per conversation, including the summary of its older turns.
+ * - `messages` holds one record per session with its messages (newest first, like ChatPanel).
+ * - `images` holds the captured frames separately, so listing and loading text stays cheap.
+ */
+
+const DB_NAME = 'visionai-chat';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+const IMAGES_STORE = 'images';
+
+export const DEFAULT_SESSION_TITLE = 'Percakapan baru';
+const MAX_SESSIONS = 50; // Oldest sessions are deleted beyond this
+const MAX_MESSAGES_PER_SESSION = 200; // Oldest messages are dropped beyond this
+const MAX_IMAGE_LENGTH = 2 * 1024 * 1024; // Data URI characters; larger images are not stored
+const MAX_IMAGE_LENGTH_PER_SESSION = 20 * 1024 * 1024; // Older images are dropped (the message is kept) beyond this
+const MAX_TITLE_LENGTH = 40;
+
+type StoredChatMessage = Omit<ChatMessageData, 'image' | 'isStreaming'> & { hasImage?: boolean };
+
+interface StoredSessionMessages {
+  sessionId: string;
+  messages: StoredChatMessage[];
+}
+
+interface StoredImage {
+  key: string; // `${sessionId}:${messageId}`
+  sessionId: string;
+  dataUri: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Penyimpanan lokal (IndexedDB) tidak tersedia di browser ini.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        db.createObjectStore(MESSAGES_STORE, { keyPath: 'sessionId' });
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Gagal membuka penyimpanan lokal.'));
+    });
+    // Allow a later call to retry instead of caching the failure.
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaksi penyimpanan lokal dibatalkan.'));
+  });
+}
+
+const imageKey = (sessionId: string, messageId: string) => `${sessionId}:${messageId}`;
+
+function titleFromMessages(messages: StoredChatMessage[]): string | null {
+  const firstQuestion = [...messages].reverse().find(msg => msg.role === 'user' && msg.content.trim());
+  if (!firstQuestion) return null;
+  const text = firstQuestion.content.trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+async function deleteSessionRecords(transaction: IDBTransaction, sessionId: string): Promise<void> {
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  transaction.objectStore(MESSAGES_STORE).delete(sessionId);
+  const images = transaction.objectStore(IMAGES_STORE);
+  const keys = await requestToPromise(images.index('sessionId').getAllKeys(sessionId));
+  keys.forEach(key => images.delete(key));
+}
+
+export async function listSessions(): Promise<ChatSession[]> {
+  const db = await openDatabase();
+  const sessions = await requestToPromise(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll() as IDBRequest<ChatSession[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createSession(): Promise<ChatSession> {
+  const db = await openDatabase();
+  const now = Date.now();
+  const session: ChatSession = { id: `session-${now}`, title: DEFAULT_SESSION_TITLE, createdAt: now, updatedAt: now, messageCount: 0 };
+
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  sessions.put(session);
+  const existing = await requestToPromise(sessions.getAll() as IDBRequest<ChatSession[]>);
+  const overflow = existing
+    .filter(s => s.id !== session.id)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(MAX_SESSIONS - 1);
+  for (const old of overflow) {
+    console.log(`chat-store: Session limit reached, deleting "${old.title}".`);
+    await deleteSessionRecords(transaction, old.id);
+  }
+  await done;
+  return session;
+}
+
+export async function renameSession(sessionId: string, title: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const session = await requestToPromise(sessions.get(sessionId) as IDBRequest<ChatSession | undefined>);
+  if (session) sessions.put({ ...session, title: title.trim() || DEFAULT_SESSION_TITLE });
+  await done;
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  await deleteSessionRecords(transaction, sessionId);
+  await done;
+}
+
+/** Creates a session holding previously exported messages (newest first). */
+export async function importSession(title: string, messages: ChatMessageData[]): Promise<ChatSession> {
+  const session = await createSession();
+  await renameSession(session.id, title);
+  await saveSessionMessages(session.id, messages);
+  return session;
+}
+
+/** Loads the messages of a session, newest first, with their images restored. */
+export async function loadSessionMessages(sessionId: string): Promise<ChatMessageData[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction([MESSAGES_STORE, IMAGES_STORE]);
+  const record = await requestToPromise(transaction.objectStore(MESSAGES_STORE).get(sessionId) as IDBRequest<StoredSessionMessages | undefined>);
+  if (!record) return [];
+
+  const images = transaction.objectStore(IMAGES_STORE);
+  return Promise.all(record.messages.map(async ({ hasImage, ...message }) => {
+    if (!hasImage) return message;
+    const image = await requestToPromise(images.get(imageKey(sessionId, message.id)) as IDBRequest<StoredImage | undefined>);
+    return image ? { ...message, image: image.dataUri } : message;
+  }));
+}
+
+/**
+ * Replaces the stored messages of a session (newest first). Messages that are still streaming
+ * are skipped, and the message and image limits are applied, dropping the oldest first.
+ */
+export async function saveSessionMessages(sessionId: string, messages: ChatMessageData[]): Promise<void> {
+  let imageBudget = MAX_IMAGE_LENGTH_PER_SESSION;
+  const imagesToStore = new Map<string, string>();
+  const storedMessages: StoredChatMessage[] = messages
+    .filter(msg => !msg.isStreaming)
+    .slice(0, MAX_MESSAGES_PER_SESSION)
+    .map(({ image, isStreaming: _isStreaming, ...message }) => {
+      if (!image || image.length > MAX_IMAGE_LENGTH || image.length > imageBudget) return message;
+      imageBudget -= image.length;
+      imagesToStore.set(imageKey(sessionId, message.id), image);
+      return { ...message, hasImage: true };
+    });
+
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, MESSAGES_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const session = await requestToPromise(sessions.get(sessionId) as IDBRequest<ChatSession | undefined>);
+  if (!session) {
+    // Deleted while a response was in flight; do not resurrect it.
+    transaction.abort();
+    await done.catch(() => {});
+    return;
+  }
+
+  transaction.objectStore(MESSAGES_STORE).put({ sessionId, messages: storedMessages } satisfies StoredSessionMessages);
+
+  const images = transaction.objectStore(IMAGES_STORE);
+  const existingKeys = new Set(await requestToPromise(images.index('sessionId').getAllKeys(sessionId)));
+  existingKeys.forEach(key => {
+    if (!imagesToStore.has(key as string)) images.delete(key);
+  });
+  imagesToStore.forEach((dataUri, key) => {
+    if (!existingKeys.has(key)) images.put({ key, sessionId, dataUri } satisfies StoredImage);
+  });
+
+  sessions.put({
+    ...session,
+    title: session.title === DEFAULT_SESSION_TITLE ? titleFromMessages(storedMessages) ?? session.title : session.title,
+    updatedAt: Date.now(),
+    messageCount: storedMessages.length,
+  } satisfies ChatSession);
+  await done;
+}
+
+/** The stored summary of the older turns of a session, if one was generated. */
+export async function loadSessionSummary(sessionId: string): Promise<HistorySummary | undefined> {
+  const db = await openDatabase();
+  const session = await requestToPromise(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(sessionId) as IDBRequest<ChatSession | undefined>);
+  return session?.historySummary;
+}
+
+/** Stores the summary with the session so it is not regenerated on every turn. Does not count as activity. */
+export async function saveSessionSummary(sessionId: string, historySummary: HistorySummary): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const session = await requestToPromise(sessions.get(sessionId) as IDBRequest<ChatSession | undefined>);
+  if (session) sessions.put({ ...session, historySummary } satisfies ChatSession);
+  await done;
+}
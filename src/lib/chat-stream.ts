@@ -0,0 +1,89 @@
+import type { ContextualChatWithVisionChunk, ContextualChatWithVisionInput, ContextualChatWithVisionOutput } from '@/ai/flows';
+import type { FlowError } from '@/ai/flow-errors';
+import type { ApiErrorBody } from '@/lib/api/errors';
+
+/**
+ * Client of the app's chat endpoint (src/app/api/chat/stream/route.ts).
+ * Both calls go over fetch with the caller's AbortSignal, so cancelling closes the connection and
+ * the server stops generating, instead of the UI merely no longer waiting for the answer.
+ */
+
+export const CHAT_STREAM_URL = '/api/chat/stream';
+
+type ChatStreamEvent =
+  | { message: ContextualChatWithVisionChunk }
+  | { result: ContextualChatWithVisionOutput }
+  | { error: FlowError };
+
+// Limits the route enforces before the flow runs, reported like the flow's own errors so the chat can offer a retry.
+const HTTP_FLOW_ERRORS: Record<number, FlowError['code']> = {
+  413: 'IMAGE_TOO_LARGE',
+  429: 'RATE_LIMITED',
+};
+
+async function postChat(
+  input: ContextualChatWithVisionInput,
+  accept: string,
+  signal: AbortSignal
+): Promise<Response | ContextualChatWithVisionOutput> {
+  const response = await fetch(CHAT_STREAM_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: accept },
+    body: JSON.stringify(input),
+    signal,
+  });
+  if (response.ok) return response;
+  const body = (await response.json().catch(() => null)) as ApiErrorBody | null;
+  const message = body?.error.message ?? `Permintaan gagal dengan status ${response.status}.`;
+  const code = HTTP_FLOW_ERRORS[response.status];
+  if (!code) throw new Error(message);
+  const retryAfterSeconds = Number(response.headers.get('retry-after'));
+  return {
+    status: 'error',
+    error: { code, message, retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined },
+  };
+}
+
+/** Streams an answer, passing each partial answer to `onChunk`; resolves with the final output. */
+export async function streamChatAnswer(
+  input: ContextualChatWithVisionInput,
+  signal: AbortSignal,
+  onChunk: (chunk: ContextualChatWithVisionChunk) => void
+): Promise<ContextualChatWithVisionOutput> {
+  const response = await postChat(input, 'text/event-stream', signal);
+  if (!(response instanceof Response)) return response;
+  if (!response.body) throw new Error('Respons tidak berisi aliran data.');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      signal.throwIfAborted(); // Never hand on what arrived after the caller cancelled
+      if (done) break;
+      buffer += value;
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (!frame.startsWith('data: ')) continue;
+        const event = JSON.parse(frame.slice('data: '.length)) as ChatStreamEvent;
+        if ('message' in event) onChunk(event.message);
+        else if ('result' in event) return event.result;
+        else return { status: 'error', error: event.error };
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  throw new Error('Aliran respons berakhir sebelum jawaban lengkap diterima.');
+}
+
+/** Asks for the whole answer at once; the fallback when streaming fails. */
+export async function requestChatAnswer(
+  input: ContextualChatWithVisionInput,
+  signal: AbortSignal
+): Promise<ContextualChatWithVisionOutput> {
+  const response = await postChat(input, 'application/json', signal);
+  return response instanceof Response ? ((await response.json()) as ContextualChatWithVisionOutput) : response;
+}
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import type { ChatMessageData, CountedObject } from '@/types';
+import { highlightColorForIndex } from '@/lib/highlight-colors';
+import { mapCountedObjectsToRegion } from '@/lib/geometry';
+import { FLOW_ERROR_CODES } from '@/lib/flow-error-messages';
+import { isSafeUrl } from '@/lib/utils';
+
+/**
+ * Serializes a conversation for sharing outside the app:
+ * - Markdown with embedded images, for tickets and notes.
+ * - Versioned JSON that `parseConversationJson` can import again.
+ * - A self-contained HTML report where snapshots show the counted-object boxes.
+ * All functions take messages newest first (as ChatPanel stores them) and write them oldest first.
+ */
+
+export const CONVERSATION_EXPORT_FORMAT = 'visionai-conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export type ConversationExportType = 'markdown' | 'json' | 'html';
+
+const BoundingBoxSchema = z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() });
+
+const ChatMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  createdAt: z.number().optional(),
+  image: z.string().startsWith('data:image/').optional(),
+  isError: z.boolean().optional(),
+  isCancelled: z.boolean().optional(),
+  errorCode: z.enum(FLOW_ERROR_CODES).optional(),
+  countedObjects: z.array(z.object({
+    name: z.string(),
+    count: z.number(),
+    instances: z.array(z.object({ boundingBox: BoundingBoxSchema })),
+  })).optional(),
+  citations: z.array(z.object({
+    title: z.string(),
+    url: z.string().url().refine(isSafeUrl, 'Tautan sumber harus berupa http atau https.'),
+    snippet: z.string().optional(),
+    claim: z.string(),
+  })).optional(),
+  focus: z.object({ label: z.string(), boundingBox: BoundingBoxSchema }).optional(),
+  region: BoundingBoxSchema.optional(),
+  model: z.string().optional(),
+  cached: z.boolean().optional(),
+  imageInfo: z.object({
+    width: z.number(),
+    height: z.number(),
+    bytes: z.number(),
+    format: z.enum(['jpeg', 'webp', 'avif']),
+    quality: z.number(),
+  }).optional(),
+  frameQuality: z.object({
+    sharpness: z.number(),
+    brightness: z.number(),
+    darkFraction: z.number(),
+    clippedFraction: z.number(),
+    score: z.number(),
+    issues: z.array(z.enum(['blurry', 'dark', 'glare'])),
+  }).optional(),
+  mode: z.object({ id: z.string(), label: z.string() }).optional(),
+  promptVersion: z.string().optional(),
+  usage: z.object({
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    totalTokens: z.number(),
+    imageTokens: z.number(),
+    inputImages: z.number(),
+    toolCalls: z.number(),
+    modelCalls: z.number(),
+    latencyMs: z.number(),
+    cost: z.object({ amount: z.number(), currency: z.string() }).optional(),
+  }).optional(),
+});
+
+const ConversationExportSchema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT),
+  version: z.literal(CONVERSATION_EXPORT_VERSION),
+  exportedAt: z.string(),
+  title: z.string(),
+  messages: z.array(ChatMessageSchema),
+});
+
+export type ConversationExport = z.infer<typeof ConversationExportSchema>;
+
+// Message ids start with Date.now(), which covers messages saved before `createdAt` existed.
+export function messageTimestamp(message: ChatMessageData): number | null {
+  if (message.createdAt) return message.createdAt;
+  const fromId = parseInt(message.id, 10);
+  return Number.isFinite(fromId) ? fromId : null;
+}
+
+function formatTimestamp(message: ChatMessageData): string {
+  const timestamp = messageTimestamp(message);
+  return timestamp ? new Date(timestamp).toLocaleString('id-ID') : '';
+}
+
+export function chronological(messages: ChatMessageData[]): ChatMessageData[] {
+  return [...messages].filter(msg => !msg.isStreaming).reverse();
+}
+
+/**
+ * The frame an answer's counted objects belong to: its own (live mode) or that of the question
+ * right before it. Region answers store full-frame boxes while the question only kept the crop,
+ * so those boxes are mapped into the crop. Takes messages oldest first.
+ */
+export function annotatedFrameForAnswer(ordered: ChatMessageData[], index: number): { image: string; objects: CountedObject[] } | null {
+  const answer = ordered[index];
+  if (!answer.countedObjects || answer.countedObjects.length === 0) return null;
+  if (answer.image) return { image: answer.image, objects: answer.countedObjects };
+  const question = ordered[index - 1];
+  if (question?.role !== 'user' || !question.image) return null;
+  return {
+    image: question.image,
+    objects: question.region ? mapCountedObjectsToRegion(answer.countedObjects, question.region) : answer.countedObjects,
+  };
+}
+
+function summarizeCounts(objects: CountedObject[]): string {
+  return objects.map(obj => `${obj.name}: ${obj.count}`).join(', ');
+}
+
+const roleLabel = (message: ChatMessageData) => (message.role === 'user' ? 'Pengguna' : 'VisionAI');
+
+export function exportConversationMarkdown(title: string, messages: ChatMessageData[]): string {
+  const lines = [`# ${title}`, '', `_Diekspor ${new Date().toLocaleString('id-ID')}_`, ''];
+  chronological(messages).forEach(message => {
+    lines.push(`## ${roleLabel(message)} · ${formatTimestamp(message)}`, '');
+    if (message.focus) lines.push(`> Objek: ${message.focus.label}`, '');
+    if (message.image) lines.push(`![Gambar](${message.image})`, '');
+    lines.push(message.content || '_(kosong)_', '');
+    if (message.countedObjects && message.countedObjects.length > 0) {
+      lines.push('**Objek terhitung:**', '');
+      message.countedObjects.forEach(obj => lines.push(`- ${obj.name}: ${obj.count}`));
+      lines.push('');
+    }
+    if (message.citations && message.citations.length > 0) {
+      lines.push('**Sumber:**', '');
+      message.citations.forEach((citation, index) => {
+        const source = isSafeUrl(citation.url) ? `[${citation.title}](${citation.url})` : `${citation.title} (${citation.url})`;
+        lines.push(`${index + 1}. ${source} — ${citation.claim}`);
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+}
+
+export function exportConversationJson(title: string, messages: ChatMessageData[]): string {
+  const payload: ConversationExport = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    messages: chronological(messages).map(({ isStreaming: _isStreaming, ...message }) => ({
+      ...message,
+      createdAt: messageTimestamp(message) ?? undefined,
+    })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/** Parses an exported JSON file. Returns the messages newest first, ready for ChatPanel. */
+export function parseConversationJson(text: string): { title: string; messages: ChatMessageData[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Berkas bukan JSON yang valid.');
+  }
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`Versi ekspor ${version} lebih baru dari yang didukung aplikasi ini (${CONVERSATION_EXPORT_VERSION}).`);
+  }
+  const parsed = ConversationExportSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Berkas bukan ekspor percakapan VisionAI yang valid: ${parsed.error.issues[0]?.message ?? 'format tidak dikenal'}`);
+  }
+  return { title: parsed.data.title, messages: [...parsed.data.messages].reverse() };
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// An SVG in normalized coordinates stretched over the image, so boxes line up at any size.
+function renderAnnotatedSnapshot(imageDataUri: string, objects: CountedObject[]): string {
+  const shapes = objects.flatMap((obj, objectIndex) => obj.instances.map((instance, instanceIndex) => {
+    const { x, y, width, height } = instance.boundingBox;
+    const color = highlightColorForIndex(objectIndex);
+    return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" stroke="${color}" stroke-width="3" vector-effect="non-scaling-stroke"><title>${escapeHtml(`${obj.name} #${instanceIndex + 1}`)}</title></rect>`;
+  }));
+  const legend = objects.map((obj, objectIndex) =>
+    `<li><span class="swatch" style="background:${highlightColorForIndex(objectIndex)}"></span>${escapeHtml(obj.name)}: ${obj.count}</li>`);
+  return `<figure class="snapshot"><div class="frame"><img src="${escapeHtml(imageDataUri)}" alt="Cuplikan beranotasi"><svg viewBox="0 0 1 1" preserveAspectRatio="none">${shapes.join('')}</svg></div><figcaption><ul class="legend">${legend.join('')}</ul></figcaption></figure>`;
+}
+
+export function exportConversationHtml(title: string, messages: ChatMessageData[]): string {
+  const ordered = chronological(messages);
+  const items = ordered.map((message, index) => {
+    const parts = [`<header><strong>${roleLabel(message)}</strong> <time>${escapeHtml(formatTimestamp(message))}</time></header>`];
+    if (message.focus) parts.push(`<p class="chip">Objek: ${escapeHtml(message.focus.label)}</p>`);
+    if (message.image && message.role === 'user') parts.push(`<img class="photo" src="${escapeHtml(message.image)}" alt="Gambar pertanyaan">`);
+    parts.push(`<p class="content">${escapeHtml(message.content)}</p>`);
+    if (message.countedObjects && message.countedObjects.length > 0) {
+      const frame = annotatedFrameForAnswer(ordered, index);
+      parts.push(frame
+        ? renderAnnotatedSnapshot(frame.image, frame.objects)
+        : `<p class="chip">Objek terhitung: ${escapeHtml(summarizeCounts(message.countedObjects))}</p>`);
+    }
+    if (message.citations && message.citations.length > 0) {
+      const citations = message.citations.map(citation => {
+        const source = isSafeUrl(citation.url)
+          ? `<a href="${escapeHtml(citation.url)}" rel="noopener noreferrer">${escapeHtml(citation.title)}</a>`
+          : `${escapeHtml(citation.title)} (${escapeHtml(citation.url)})`;
+        return `<li>${source} — ${escapeHtml(citation.claim)}</li>`;
+      });
+      parts.push(`<ol class="citations">${citations.join('')}</ol>`);
+    }
+    return `<article class="message ${message.role}${message.isError ? ' error' : ''}">${parts.join('')}</article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+.message { border: 1px solid #e2e8f0; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+.message.user { background: #f1f5f9; }
+.message.error { border-color: #f87171; }
+header { font-size: 0.85rem; margin-bottom: 0.25rem; }
+time { color: #64748b; }
+.content { white-space: pre-wrap; margin: 0.25rem 0; }
+.chip { font-size: 0.8rem; color: #475569; margin: 0.25rem 0; }
+.photo { max-width: 16rem; border-radius: 0.375rem; }
+.snapshot { margin: 0.5rem 0; }
+.frame { position: relative; display: inline-block; max-width: 100%; }
+.frame img { display: block; max-width: 100%; border-radius: 0.375rem; }
+.frame svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+.legend { list-style: none; padding: 0; display: flex; flex-wrap: wrap; gap: 0.75rem; font-size: 0.8rem; }
+.swatch { display: inline-block; width: 0.75rem; height: 0.75rem; border-radius: 0.125rem; margin-right: 0.25rem; vertical-align: middle; }
+.citations { font-size: 0.8rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="chip">Diekspor ${escapeHtml(new Date().toLocaleString('id-ID'))} · ${ordered.length} pesan</p>
+${items.join('\n')}
+</body>
+</html>
+`;
+}
+
+const EXPORTERS: Record<ConversationExportType, { extension: string; mimeType: string; serialize: (title: string, messages: ChatMessageData[]) => string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', serialize: exportConversationMarkdown },
+  json: { extension: 'json', mimeType: 'application/json', serialize: exportConversationJson },
+  html: { extension: 'html', mimeType: 'text/html', serialize: exportConversationHtml },
+};
+
+export function exportFileName(title: string, suffix: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'percakapan';
+  return `visionai-${slug}-${new Date().toISOString().slice(0, 10)}${suffix}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000); // Some browsers start the download asynchronously
+}
+
+/** Serializes the conversation and lets the browser download it. */
+export function downloadConversation(type: ConversationExportType, title: string, messages: ChatMessageData[]): void {
+  const exporter = EXPORTERS[type];
+  const blob = new Blob([exporter.serialize(title, messages)], { type: `${exporter.mimeType};charset=utf-8` });
+  downloadBlob(blob, exportFileName(title, `.${exporter.extension}`));
+}
@@ -0,0 +1,209 @@
+import type { BoundingBox, ChatMessageData, CountedObject } from '@/types';
+import { annotatedFrameForAnswer, chronological, downloadBlob, exportFileName } from '@/lib/conversation-export';
+import { clamp01 } from '@/lib/geometry';
+import { loadImage } from '@/lib/image';
+import { createZip, type ZipEntry } from '@/lib/zip';
+
+/**
+ * Bundles every annotated frame of a conversation into a detection dataset ZIP:
+ * - COCO: `images/` plus `annotations.json` (pixel `[x, y, width, height]` boxes, category ids from 1).
+ * - YOLO: `images/`, `labels/*.txt` (`class cx cy w h`, normalized), `classes.txt` and `data.yaml`.
+ * - Pascal VOC: `JPEGImages/`, `Annotations/*.xml` (pixel corners) and `labels.txt`.
+ * The class map is the sorted set of `CountedObject.name`s, so the same session always exports
+ * the same ids in every format.
+ */
+
+export type DatasetFormat = 'coco' | 'yolo' | 'voc';
+
+interface DatasetFrame {
+  fileStem: string; // e.g. "frame_0001"
+  extension: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  objects: CountedObject[]; // Boxes normalized to this frame
+}
+
+interface PixelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function dataUriToBytes(dataUri: string): { bytes: Uint8Array; extension: string } {
+  const match = /^data:image\/([a-z+]+);base64,(.*)$/i.exec(dataUri);
+  if (!match) throw new Error('Gambar tidak dalam format data URI base64.');
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, extension: match[1].toLowerCase() === 'jpeg' ? 'jpg' : match[1].toLowerCase() };
+}
+
+function clampBox(box: BoundingBox): BoundingBox {
+  const x = clamp01(box.x);
+  const y = clamp01(box.y);
+  return { x, y, width: clamp01(box.x + box.width) - x, height: clamp01(box.y + box.height) - y };
+}
+
+function toPixels(box: BoundingBox, width: number, height: number): PixelBox {
+  const clamped = clampBox(box);
+  return {
+    x: Math.round(clamped.x * width),
+    y: Math.round(clamped.y * height),
+    width: Math.round(clamped.width * width),
+    height: Math.round(clamped.height * height),
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Frames with boxes, oldest first. A frame answered more than once keeps its latest boxes. */
+async function collectFrames(messages: ChatMessageData[]): Promise<DatasetFrame[]> {
+  const ordered = chronological(messages);
+  const latestByImage = new Map<string, CountedObject[]>();
+  ordered.forEach((_, index) => {
+    const frame = annotatedFrameForAnswer(ordered, index);
+    if (!frame) return;
+    latestByImage.delete(frame.image); // Re-insert so the order follows the latest answer
+    latestByImage.set(frame.image, frame.objects);
+  });
+
+  const frames: DatasetFrame[] = [];
+  for (const [image, objects] of Array.from(latestByImage)) {
+    const { naturalWidth, naturalHeight } = await loadImage(image);
+    const { bytes, extension } = dataUriToBytes(image);
+    frames.push({
+      fileStem: `frame_${String(frames.length + 1).padStart(4, '0')}`,
+      extension,
+      bytes,
+      width: naturalWidth,
+      height: naturalHeight,
+      objects,
+    });
+  }
+  return frames;
+}
+
+function buildClassMap(frames: DatasetFrame[]): string[] {
+  const names = new Set<string>();
+  frames.forEach(frame => frame.objects.forEach(obj => names.add(obj.name)));
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+function cocoEntries(frames: DatasetFrame[], classes: string[]): ZipEntry[] {
+  let annotationId = 0;
+  const annotations = frames.flatMap((frame, frameIndex) => frame.objects.flatMap(obj => obj.instances.map(instance => {
+    const box = toPixels(instance.boundingBox, frame.width, frame.height);
+    return {
+      id: ++annotationId,
+      image_id: frameIndex + 1,
+      category_id: classes.indexOf(obj.name) + 1,
+      bbox: [box.x, box.y, box.width, box.height],
+      area: box.width * box.height,
+      iscrowd: 0,
+    };
+  })));
+  const dataset = {
+    info: { description: 'Diekspor dari VisionAI', date_created: new Date().toISOString() },
+    images: frames.map((frame, frameIndex) => ({
+      id: frameIndex + 1,
+      file_name: `${frame.fileStem}.${frame.extension}`,
+      width: frame.width,
+      height: frame.height,
+    })),
+    annotations,
+    categories: classes.map((name, index) => ({ id: index + 1, name, supercategory: 'object' })),
+  };
+  return [
+    ...frames.map(frame => ({ name: `images/${frame.fileStem}.${frame.extension}`, data: frame.bytes })),
+    { name: 'annotations.json', data: JSON.stringify(dataset, null, 2) },
+  ];
+}
+
+function yoloEntries(frames: DatasetFrame[], classes: string[]): ZipEntry[] {
+  const format = (value: number) => value.toFixed(6);
+  return [
+    ...frames.flatMap(frame => {
+      const lines = frame.objects.flatMap(obj => obj.instances.map(instance => {
+        const box = clampBox(instance.boundingBox);
+        return [classes.indexOf(obj.name), format(box.x + box.width / 2), format(box.y + box.height / 2), format(box.width), format(box.height)].join(' ');
+      }));
+      return [
+        { name: `images/${frame.fileStem}.${frame.extension}`, data: frame.bytes },
+        { name: `labels/${frame.fileStem}.txt`, data: lines.length > 0 ? `${lines.join('\n')}\n` : '' },
+      ];
+    }),
+    { name: 'classes.txt', data: `${classes.join('\n')}\n` },
+    {
+      name: 'data.yaml',
+      data: `path: .\ntrain: images\nval: images\nnc: ${classes.length}\nnames:\n${classes.map((name, index) => `  ${index}: ${JSON.stringify(name)}`).join('\n')}\n`,
+    },
+  ];
+}
+
+function vocEntries(frames: DatasetFrame[], classes: string[]): ZipEntry[] {
+  return [
+    ...frames.flatMap(frame => {
+      const fileName = `${frame.fileStem}.${frame.extension}`;
+      const objects = frame.objects.flatMap(obj => obj.instances.map(instance => {
+        const box = toPixels(instance.boundingBox, frame.width, frame.height);
+        // VOC pixel coordinates are 1-based and inclusive.
+        return `  <object>
+    <name>${escapeXml(obj.name)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${Math.max(1, box.x + 1)}</xmin>
+      <ymin>${Math.max(1, box.y + 1)}</ymin>
+      <xmax>${Math.min(frame.width, box.x + box.width)}</xmax>
+      <ymax>${Math.min(frame.height, box.y + box.height)}</ymax>
+    </bndbox>
+  </object>`;
+      }));
+      const xml = `<annotation>
+  <folder>JPEGImages</folder>
+  <filename>${fileName}</filename>
+  <source><database>VisionAI</database></source>
+  <size>
+    <width>${frame.width}</width>
+    <height>${frame.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects.join('\n')}
+</annotation>
+`;
+      return [
+        { name: `JPEGImages/${fileName}`, data: frame.bytes },
+        { name: `Annotations/${frame.fileStem}.xml`, data: xml },
+      ];
+    }),
+    { name: 'labels.txt', data: `${classes.join('\n')}\n` },
+  ];
+}
+
+const DATASET_BUILDERS: Record<DatasetFormat, (frames: DatasetFrame[], classes: string[]) => ZipEntry[]> = {
+  coco: cocoEntries,
+  yolo: yoloEntries,
+  voc: vocEntries,
+};
+
+/** Builds the dataset ZIP. Throws when the conversation has no frame with counted objects. */
+export async function buildDatasetZip(format: DatasetFormat, messages: ChatMessageData[]): Promise<{ blob: Blob; frameCount: number; classes: string[] }> {
+  const frames = await collectFrames(messages);
+  if (frames.length === 0) {
+    throw new Error('Tidak ada gambar dengan objek terhitung dalam percakapan ini.');
+  }
+  const classes = buildClassMap(frames);
+  return { blob: createZip(DATASET_BUILDERS[format](frames, classes)), frameCount: frames.length, classes };
+}
+
+export async function downloadDataset(format: DatasetFormat, title: string, messages: ChatMessageData[]): Promise<{ frameCount: number; classes: string[] }> {
+  const { blob, frameCount, classes } = await buildDatasetZip(format, messages);
+  downloadBlob(blob, exportFileName(title, `-${format}.zip`));
+  return { frameCount, classes };
+}
@@ -0,0 +1,15 @@
+/**
+ * Numeric settings read from environment variables. A missing, non-numeric or out-of-range value
+ * falls back to the default instead of turning into NaN.
+ */
+
+export const positiveIntFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// For settings where 0 is meaningful, e.g. no retries or no limit.
+export const nonNegativeIntFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
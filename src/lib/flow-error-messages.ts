@@ -0,0 +1,25 @@
+import type { FlowErrorCode } from '@/types';
+
+const FLOW_ERROR_MESSAGES: Record<FlowErrorCode, string> = {
+  RATE_LIMITED: 'Batas penggunaan API telah tercapai untuk semua model yang dikonfigurasi.',
+  MODEL_UNAVAILABLE: 'Layanan AI sedang tidak tersedia.',
+  MODEL_EMPTY_OUTPUT: 'AI tidak menghasilkan jawaban untuk pertanyaan ini.',
+  IMAGE_TOO_LARGE: 'Gambar terlalu besar untuk dianalisis. Gunakan gambar yang lebih kecil atau pilih satu wilayah saja.',
+  SAFETY_BLOCKED: 'Jawaban diblokir oleh filter keamanan AI. Coba ubah pertanyaan atau gambarnya.',
+  TOOL_FAILED: 'Pencarian internet gagal, sehingga jawaban tidak dapat didukung sumber terbaru.',
+  INTERNAL: 'Terjadi kesalahan internal saat memproses permintaan Anda.',
+};
+
+export const FLOW_ERROR_CODES = Object.keys(FLOW_ERROR_MESSAGES) as [FlowErrorCode, ...FlowErrorCode[]];
+
+// Asking again with the same question and image cannot help for these.
+const NON_RETRYABLE_FLOW_ERRORS: ReadonlySet<FlowErrorCode> = new Set(['IMAGE_TOO_LARGE', 'SAFETY_BLOCKED']);
+
+export const isRetryableFlowError = (code: FlowErrorCode) => !NON_RETRYABLE_FLOW_ERRORS.has(code);
+
+/** Localized text for a flow error, with a wait hint when the server said how long to wait. */
+export function flowErrorMessage(error: { code: FlowErrorCode; retryAfterMs?: number }): string {
+  const message = FLOW_ERROR_MESSAGES[error.code];
+  if (error.retryAfterMs) return `${message} Coba lagi dalam ${Math.ceil(error.retryAfterMs / 1000)} detik.`;
+  return isRetryableFlowError(error.code) ? `${message} Silakan coba lagi.` : message;
+}
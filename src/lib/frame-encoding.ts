@@ -0,0 +1,124 @@
+import type { EncodedFrame, FrameEncodingOptions, FrameFormat } from '@/types';
+import { positiveIntFromEnv } from './env';
+
+/**
+ * Scales and encodes camera frames and uploads before they are sent to the model, so a phone's
+ * native resolution does not turn into a multi-megabyte data URI:
+ * - the longest side is scaled down to `maxDimension`;
+ * - the preferred format is used when the browser can encode it (Gemini does not accept AVIF,
+ *   so it is opt-in), otherwise JPEG;
+ * - quality is lowered step by step, then the frame is scaled down further, until the encoded
+ *   image fits `maxBytes`.
+ */
+
+export type FrameEncodingPresetId = 'live' | 'standard' | 'detail';
+
+function isFrameFormat(value: string | undefined): value is FrameFormat {
+  return value === 'jpeg' || value === 'webp' || value === 'avif';
+}
+
+const configuredFormat = process.env.NEXT_PUBLIC_FRAME_FORMAT?.trim().toLowerCase();
+const DEFAULT_FRAME_FORMAT: FrameFormat = isFrameFormat(configuredFormat) ? configuredFormat : 'webp';
+
+export const FRAME_ENCODING_PRESETS: Record<FrameEncodingPresetId, FrameEncodingOptions> = {
+  // Frames analyzed every few seconds in live mode.
+  live: { maxDimension: 768, format: DEFAULT_FRAME_FORMAT, quality: 0.75, minQuality: 0.5, maxBytes: 120 * 1024 },
+  standard: {
+    maxDimension: positiveIntFromEnv(process.env.NEXT_PUBLIC_FRAME_MAX_DIMENSION, 1280),
+    format: DEFAULT_FRAME_FORMAT,
+    quality: 0.85,
+    minQuality: 0.5,
+    maxBytes: positiveIntFromEnv(process.env.NEXT_PUBLIC_FRAME_MAX_BYTES, 300 * 1024),
+  },
+  // Counting and reading small text need the extra pixels.
+  detail: { maxDimension: 2048, format: DEFAULT_FRAME_FORMAT, quality: 0.9, minQuality: 0.6, maxBytes: 1024 * 1024 },
+};
+
+const DETAIL_QUESTION_KEYWORDS = /\b(hitung|berapa|jumlah|baca|bacakan|tulisan|teks|huruf|angka|label|nomor|count|how many|read|text)\b/i;
+
+/** The detail preset for questions about counting or reading, the standard one otherwise. */
+export const frameEncodingForQuestion = (question: string): FrameEncodingOptions =>
+  FRAME_ENCODING_PRESETS[DETAIL_QUESTION_KEYWORDS.test(question) ? 'detail' : 'standard'];
+
+const FRAME_MIME_TYPES: Record<FrameFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+const FRAME_FORMAT_LABELS: Record<FrameFormat, string> = {
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  avif: 'AVIF',
+};
+
+const QUALITY_STEP = 0.1;
+const DOWNSCALE_FACTOR = 0.75; // Applied when even the minimum quality is over budget
+const MAX_DOWNSCALES = 4;
+const MIN_DIMENSION = 320;
+
+const encodableFormats = new Map<FrameFormat, boolean>();
+
+// Browsers that cannot encode a format silently return a PNG instead.
+function canEncode(format: FrameFormat): boolean {
+  let supported = encodableFormats.get(format);
+  if (supported === undefined) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    supported = canvas.toDataURL(FRAME_MIME_TYPES[format]).startsWith(`data:${FRAME_MIME_TYPES[format]}`);
+    encodableFormats.set(format, supported);
+  }
+  return supported;
+}
+
+export function dataUriBytes(dataUri: string): number {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4);
+}
+
+/** Encodes an image, video frame or bitmap of the given size within the options' byte budget. */
+export function encodeFrame(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  options: FrameEncodingOptions = FRAME_ENCODING_PRESETS.standard
+): EncodedFrame {
+  const format = canEncode(options.format) ? options.format : 'jpeg';
+  const mimeType = FRAME_MIME_TYPES[format];
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Tidak dapat membuat konteks kanvas untuk mengodekan gambar.');
+  }
+
+  let scale = Math.min(1, options.maxDimension / Math.max(sourceWidth, sourceHeight));
+  for (let downscales = 0; ; downscales++) {
+    canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+    canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    let quality = options.quality;
+    let dataUri = canvas.toDataURL(mimeType, quality);
+    while (dataUriBytes(dataUri) > options.maxBytes && quality - QUALITY_STEP >= options.minQuality - 1e-6) {
+      quality = Math.round((quality - QUALITY_STEP) * 100) / 100;
+      dataUri = canvas.toDataURL(mimeType, quality);
+    }
+
+    const bytes = dataUriBytes(dataUri);
+    const canShrink = downscales < MAX_DOWNSCALES && Math.max(canvas.width, canvas.height) * DOWNSCALE_FACTOR >= MIN_DIMENSION;
+    if (bytes <= options.maxBytes || !canShrink) {
+      if (bytes > options.maxBytes) console.warn(`frame-encoding: ${bytes} bytes is over the ${options.maxBytes} byte budget at the smallest size.`);
+      return { dataUri, width: canvas.width, height: canvas.height, bytes, format, quality };
+    }
+    scale *= DOWNSCALE_FACTOR;
+  }
+}
+
+const byteFormat = new Intl.NumberFormat('id-ID', { maximumFractionDigits: 1 });
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${byteFormat.format(bytes / 1024)} KB` : `${byteFormat.format(bytes / (1024 * 1024))} MB`;
+
+/** Short description of a sent image, e.g. "1280×720 · WebP · 142 KB". */
+export const describeSentImage = (image: { width: number; height: number; bytes: number; format: FrameFormat }) =>
+  `${image.width}×${image.height} · ${FRAME_FORMAT_LABELS[image.format]} · ${formatBytes(image.bytes)}`;
@@ -0,0 +1,108 @@
+import type { FrameQualityIssue, FrameQualityScores } from '@/types';
+
+/**
+ * Scores a camera frame before it is sent, so a motion-blurred, underexposed or glaring frame
+ * does not cost a model call for a bad answer:
+ * - blur: variance of the Laplacian of a downsampled grayscale copy (low variance, few edges);
+ * - darkness: mean luminance and the share of nearly black pixels;
+ * - glare: the share of pixels clipped to white.
+ */
+
+const ANALYSIS_DIMENSION = 256; // Longest side of the copy that is analyzed; keeps thresholds independent of the camera
+const BLUR_VARIANCE_THRESHOLD = 100;
+const DARK_LUMINANCE = 35; // Pixels below this count as nearly black
+const DARK_MEAN_THRESHOLD = 55;
+const DARK_FRACTION_THRESHOLD = 0.6;
+const CLIPPED_LUMINANCE = 250;
+const GLARE_FRACTION_THRESHOLD = 0.08;
+
+export const FRAME_QUALITY_MESSAGES: Record<FrameQualityIssue, string> = {
+  blurry: 'Tahan kamera tetap stabil',
+  dark: 'Terlalu gelap, tambah pencahayaan',
+  glare: 'Ada silau, ubah sudut kamera',
+};
+
+let analysisCanvas: HTMLCanvasElement | null = null;
+
+function grayscalePixels(source: CanvasImageSource, sourceWidth: number, sourceHeight: number) {
+  const scale = Math.min(1, ANALYSIS_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(3, Math.round(sourceWidth * scale));
+  const height = Math.max(3, Math.round(sourceHeight * scale));
+  analysisCanvas ??= document.createElement('canvas');
+  analysisCanvas.width = width;
+  analysisCanvas.height = height;
+  const context = analysisCanvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Tidak dapat membuat konteks kanvas untuk memeriksa kualitas gambar.');
+  }
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { luminance, width, height };
+}
+
+function laplacianVariance(luminance: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i];
+      sum += value;
+      sumOfSquares += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Scores an image, video frame or canvas of the given size for blur, exposure and glare. */
+export function analyzeFrameQuality(source: CanvasImageSource, sourceWidth: number, sourceHeight: number): FrameQualityScores {
+  const { luminance, width, height } = grayscalePixels(source, sourceWidth, sourceHeight);
+  let total = 0;
+  let dark = 0;
+  let clipped = 0;
+  for (const value of luminance) {
+    total += value;
+    if (value < DARK_LUMINANCE) dark++;
+    if (value >= CLIPPED_LUMINANCE) clipped++;
+  }
+  const brightness = total / luminance.length;
+  const darkFraction = dark / luminance.length;
+  const clippedFraction = clipped / luminance.length;
+  const sharpness = laplacianVariance(luminance, width, height);
+
+  const issues: FrameQualityIssue[] = [];
+  if (sharpness < BLUR_VARIANCE_THRESHOLD) issues.push('blurry');
+  if (brightness < DARK_MEAN_THRESHOLD || darkFraction > DARK_FRACTION_THRESHOLD) issues.push('dark');
+  if (clippedFraction > GLARE_FRACTION_THRESHOLD) issues.push('glare');
+
+  // Each part is 1 when comfortably clear of its threshold; the weakest one decides.
+  const score = Math.min(
+    clamp01(sharpness / (2 * BLUR_VARIANCE_THRESHOLD)),
+    clamp01(brightness / (2 * DARK_MEAN_THRESHOLD)) * clamp01((1 - darkFraction) / (1 - DARK_FRACTION_THRESHOLD) / 2),
+    clamp01(1 - clippedFraction / (2 * GLARE_FRACTION_THRESHOLD)),
+  );
+
+  return {
+    sharpness: round(sharpness, 1),
+    brightness: round(brightness, 1),
+    darkFraction: round(darkFraction, 3),
+    clippedFraction: round(clippedFraction, 3),
+    score: round(score, 2),
+    issues,
+  };
+}
+
+/** The warning to show for a frame's issues, e.g. "Tahan kamera tetap stabil"; null when it is fine. */
+export function frameQualityWarning(quality: FrameQualityScores): string | null {
+  return quality.issues.length > 0 ? quality.issues.map(issue => FRAME_QUALITY_MESSAGES[issue]).join(' · ') : null;
+}
@@ -0,0 +1,78 @@
+import type { BoundingBox, CountedObject } from '@/types';
+
+export interface CoverRect {
+  drawX: number;
+  drawY: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+/**
+ * Where a source of the given size is drawn inside a container with `object-fit: cover`.
+ * The result can extend past the container edges on the axis that is cropped.
+ */
+export function computeCoverRect(sourceWidth: number, sourceHeight: number, containerWidth: number, containerHeight: number): CoverRect {
+  const sourceAspectRatio = sourceWidth / sourceHeight;
+  const containerAspectRatio = containerWidth / containerHeight;
+
+  if (sourceAspectRatio > containerAspectRatio) {
+    const drawHeight = containerHeight;
+    const drawWidth = drawHeight * sourceAspectRatio;
+    return { drawX: (containerWidth - drawWidth) / 2, drawY: 0, drawWidth, drawHeight };
+  }
+  const drawWidth = containerWidth;
+  const drawHeight = drawWidth / sourceAspectRatio;
+  return { drawX: 0, drawY: (containerHeight - drawHeight) / 2, drawWidth, drawHeight };
+}
+
+/** Where a source of the given size is drawn inside a container with `object-fit: contain`. */
+export function computeContainRect(sourceWidth: number, sourceHeight: number, containerWidth: number, containerHeight: number): CoverRect {
+  const scale = Math.min(containerWidth / sourceWidth, containerHeight / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  return { drawX: (containerWidth - drawWidth) / 2, drawY: (containerHeight - drawHeight) / 2, drawWidth, drawHeight };
+}
+
+export function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/** Maps a box that is normalized to `region` back to the frame `region` was cut from. */
+export function mapBoundingBoxFromRegion(box: BoundingBox, region: BoundingBox): BoundingBox {
+  return {
+    x: clamp01(region.x + box.x * region.width),
+    y: clamp01(region.y + box.y * region.height),
+    width: clamp01(box.width * region.width),
+    height: clamp01(box.height * region.height),
+  };
+}
+
+export function mapCountedObjectsFromRegion(objects: CountedObject[], region: BoundingBox): CountedObject[] {
+  return objects.map(obj => ({
+    ...obj,
+    instances: obj.instances.map(instance => ({
+      ...instance,
+      boundingBox: mapBoundingBoxFromRegion(instance.boundingBox, region),
+    })),
+  }));
+}
+
+/** Inverse of mapBoundingBoxFromRegion: expresses a full-frame box relative to `region`. */
+export function mapBoundingBoxToRegion(box: BoundingBox, region: BoundingBox): BoundingBox {
+  return {
+    x: (box.x - region.x) / region.width,
+    y: (box.y - region.y) / region.height,
+    width: box.width / region.width,
+    height: box.height / region.height,
+  };
+}
+
+export function mapCountedObjectsToRegion(objects: CountedObject[], region: BoundingBox): CountedObject[] {
+  return objects.map(obj => ({
+    ...obj,
+    instances: obj.instances.map(instance => ({
+      ...instance,
+      boundingBox: mapBoundingBoxToRegion(instance.boundingBox, region),
+    })),
+  }));
+}
@@ -0,0 +1,16 @@
+// Distinct, high-contrast colors for highlight overlays. Assigned by the object's position in the
+// counted-objects list so the canvas and the legend always agree.
+const HIGHLIGHT_PALETTE = [
+  '#34d399', // emerald
+  '#f59e0b', // amber
+  '#60a5fa', // blue
+  '#f472b6', // pink
+  '#a78bfa', // violet
+  '#f87171', // red
+  '#2dd4bf', // teal
+  '#facc15', // yellow
+];
+
+export function highlightColorForIndex(index: number): string {
+  return HIGHLIGHT_PALETTE[index % HIGHLIGHT_PALETTE.length];
+}
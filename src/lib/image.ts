@@ -0,0 +1,87 @@
+import type { AttachedImage, BoundingBox, FrameEncodingOptions } from '@/types';
+import { encodeFrame, FRAME_ENCODING_PRESETS } from './frame-encoding';
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Gagal memuat gambar.'));
+    image.src = src;
+  });
+}
+
+/**
+ * Crops a normalized bounding box out of an image data URI, widening it by `paddingRatio`
+ * of the box size on each side so the model sees a little surrounding context.
+ */
+export async function cropImageDataUri(dataUri: string, box: BoundingBox, paddingRatio = 0.1): Promise<string> {
+  const image = await loadImage(dataUri);
+  const imageWidth = image.naturalWidth;
+  const imageHeight = image.naturalHeight;
+
+  const padX = box.width * paddingRatio;
+  const padY = box.height * paddingRatio;
+  const left = Math.max(0, box.x - padX) * imageWidth;
+  const top = Math.max(0, box.y - padY) * imageHeight;
+  const right = Math.min(1, box.x + box.width + padX) * imageWidth;
+  const bottom = Math.min(1, box.y + box.height + padY) * imageHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(right - left));
+  canvas.height = Math.max(1, Math.round(bottom - top));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Tidak dapat membuat konteks kanvas untuk memotong gambar.');
+  }
+  context.drawImage(image, left, top, right - left, bottom - top, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+}
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+const ACCEPTED_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.heic', '.heif'];
+
+function isHeicFile(file: File): boolean {
+  return /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+}
+
+// Some browsers report an empty MIME type for HEIC files, so fall back to the extension.
+export function isAcceptedImageFile(file: File): boolean {
+  if (file.type) return ACCEPTED_IMAGE_TYPES.includes(file.type);
+  return ACCEPTED_IMAGE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+}
+
+// Only Safari decodes HEIC itself. Elsewhere libheif, compiled to JavaScript and loaded on first use, converts it to JPEG.
+async function decodeHeicFile(file: File): Promise<ImageBitmap> {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+  return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+}
+
+/**
+ * Decodes an uploaded image, applies its EXIF orientation, and scales and re-encodes it with
+ * the frame encoding pipeline so it is sent exactly like a captured camera frame.
+ */
+export async function normalizeImageFile(file: File, encoding: FrameEncodingOptions = FRAME_ENCODING_PRESETS.standard): Promise<AttachedImage> {
+  if (!isAcceptedImageFile(file)) {
+    throw new Error(`Format berkas tidak didukung (${file.type || file.name}). Gunakan JPEG, PNG, WebP, atau HEIC.`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    if (!isHeicFile(file)) throw new Error('Gagal membaca gambar.');
+    try {
+      bitmap = await decodeHeicFile(file);
+    } catch (error) {
+      console.error('normalizeImageFile: Converting the HEIC image failed:', error);
+      throw new Error('Gambar HEIC tidak dapat dibuka. Ubah gambar ke JPEG terlebih dahulu.');
+    }
+  }
+
+  try {
+    return { ...encodeFrame(bitmap, bitmap.width, bitmap.height, encoding), name: file.name };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Scene-change detection for hands-free questions. Frames are reduced to a tiny grayscale
+ * signature and compared with the previous sample (motion) and with the scene the last question
+ * was asked about (the baseline):
+ * - motion above `motionThreshold`, or a baseline difference above `changeThreshold`, marks the
+ *   scene as changing; it only counts as settled again after `settleSamples` samples below the
+ *   lower `stillThreshold` (hysteresis), so a moving camera does not fire on every sample;
+ * - a settled scene fires only when it still differs from the baseline, so returning to the same
+ *   view never asks twice, and never within `cooldownMs` of the previous question.
+ */
+
+export const SCENE_SIGNATURE_WIDTH = 32;
+export const SCENE_SIGNATURE_HEIGHT = 24;
+
+export interface SceneChangeOptions {
+  motionThreshold: number; // Mean difference between consecutive samples that starts a change, 0 to 1
+  stillThreshold: number; // Mean difference below which a sample counts as still
+  settleSamples: number; // Consecutive still samples before the scene counts as settled
+  changeThreshold: number; // Mean difference from the baseline that makes a settled scene new
+  cooldownMs: number; // Minimum time between two questions
+}
+
+export const DEFAULT_SCENE_CHANGE_OPTIONS: SceneChangeOptions = {
+  motionThreshold: 0.08,
+  stillThreshold: 0.03,
+  settleSamples: 3,
+  changeThreshold: 0.1,
+  cooldownMs: 15000,
+};
+
+export type SceneState = 'stable' | 'changing';
+
+let signatureCanvas: HTMLCanvasElement | null = null;
+
+/** Grayscale SCENE_SIGNATURE_WIDTH × SCENE_SIGNATURE_HEIGHT copy of an image or video frame. */
+export function sceneSignature(source: CanvasImageSource): Uint8Array {
+  signatureCanvas ??= document.createElement('canvas');
+  signatureCanvas.width = SCENE_SIGNATURE_WIDTH;
+  signatureCanvas.height = SCENE_SIGNATURE_HEIGHT;
+  const context = signatureCanvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Tidak dapat membuat konteks kanvas untuk mendeteksi perubahan adegan.');
+  }
+  context.drawImage(source, 0, 0, SCENE_SIGNATURE_WIDTH, SCENE_SIGNATURE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SCENE_SIGNATURE_WIDTH, SCENE_SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SCENE_SIGNATURE_WIDTH * SCENE_SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return signature;
+}
+
+/** Mean absolute difference of two signatures, 0 (identical) to 1. */
+export function signatureDistance(a: Uint8Array, b: Uint8Array): number {
+  if (a.length !== b.length) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / (a.length * 255);
+}
+
+export class SceneChangeDetector {
+  private previous: Uint8Array | null = null;
+  private baseline: Uint8Array | null = null;
+  private stillSamples = 0;
+  private lastFiredAt = -Infinity;
+  state: SceneState = 'stable';
+
+  constructor(private readonly options: SceneChangeOptions = DEFAULT_SCENE_CHANGE_OPTIONS) {}
+
+  /** Forgets the scene; the next sample becomes the baseline without firing. */
+  reset(): void {
+    this.previous = null;
+    this.baseline = null;
+    this.stillSamples = 0;
+    this.state = 'stable';
+  }
+
+  cooldownRemainingMs(now = Date.now()): number {
+    return Math.max(0, this.lastFiredAt + this.options.cooldownMs - now);
+  }
+
+  /** Feeds one sample; returns how much the scene changed when it settled on a new view, otherwise null. */
+  update(signature: Uint8Array, now = Date.now()): { change: number } | null {
+    const previous = this.previous;
+    this.previous = signature;
+    if (!this.baseline || !previous) {
+      this.baseline ??= signature;
+      return null;
+    }
+
+    const motion = signatureDistance(previous, signature);
+    if (this.state === 'stable') {
+      // The baseline check also catches slow changes that never exceed the motion threshold.
+      if (motion >= this.options.motionThreshold || signatureDistance(this.baseline, signature) >= this.options.changeThreshold) {
+        this.state = 'changing';
+        this.stillSamples = 0;
+      }
+      return null;
+    }
+
+    this.stillSamples = motion < this.options.stillThreshold ? this.stillSamples + 1 : 0;
+    if (this.stillSamples < this.options.settleSamples) return null;
+
+    const change = signatureDistance(this.baseline, signature);
+    if (change < this.options.changeThreshold) {
+      this.state = 'stable'; // Back to the view that was already asked about
+      return null;
+    }
+    // Stay 'changing' during the cooldown, so a scene that is still new fires once it ends.
+    if (this.cooldownRemainingMs(now) > 0) return null;
+    this.state = 'stable';
+    this.baseline = signature;
+    this.lastFiredAt = now;
+    return { change };
+  }
+}
@@ -0,0 +1,50 @@
+import type { ChatMessageData, MessageUsage } from '@/types';
+
+export interface SessionUsage {
+  answers: number; // Assistant answers that reported usage
+  totalTokens: number;
+  costs: { amount: number; currency: string }[]; // One total per currency in the price table
+}
+
+const tokenFormat = new Intl.NumberFormat('id-ID');
+
+export const formatTokens = (tokens: number) => tokenFormat.format(tokens);
+
+export const formatLatency = (ms: number) =>
+  ms < 1000 ? `${ms} md` : `${new Intl.NumberFormat('id-ID', { maximumFractionDigits: 1 }).format(ms / 1000)} dtk`;
+
+// Single answers cost fractions of a cent, so show enough significant digits to tell them apart.
+export function formatCost(cost: { amount: number; currency: string }): string {
+  try {
+    return new Intl.NumberFormat('id-ID', { style: 'currency', currency: cost.currency, maximumSignificantDigits: 3 }).format(cost.amount);
+  } catch {
+    return `${cost.amount.toPrecision(3)} ${cost.currency}`; // Not an ISO 4217 code
+  }
+}
+
+export function summarizeSessionUsage(messages: ChatMessageData[]): SessionUsage {
+  const usages = messages.flatMap(msg => (msg.usage ? [msg.usage] : []));
+  const costs = new Map<string, number>();
+  for (const usage of usages) {
+    if (usage.cost) costs.set(usage.cost.currency, (costs.get(usage.cost.currency) ?? 0) + usage.cost.amount);
+  }
+  return {
+    answers: usages.length,
+    totalTokens: usages.reduce((sum, usage) => sum + usage.totalTokens, 0),
+    costs: [...costs].map(([currency, amount]) => ({ currency, amount })),
+  };
+}
+
+/** Label/value rows for the usage details of one answer. */
+export function usageDetailRows(usage: MessageUsage): [string, string][] {
+  const rows: [string, string][] = [
+    ['Token masuk', formatTokens(usage.inputTokens)],
+    ['Token keluar', formatTokens(usage.outputTokens)],
+  ];
+  if (usage.inputImages > 0) rows.push(['Gambar', `${usage.inputImages} (≈${formatTokens(usage.imageTokens)} token)`]);
+  if (usage.toolCalls > 0) rows.push(['Panggilan alat', String(usage.toolCalls)]);
+  rows.push(['Panggilan model', String(usage.modelCalls)]);
+  rows.push(['Waktu', formatLatency(usage.latencyMs)]);
+  if (usage.cost) rows.push(['Perkiraan biaya', formatCost(usage.cost)]);
+  return rows;
+}
@@ -4,3 +4,6 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Only link out to web pages; citation URLs come from the model or an imported file and must not become javascript: links.
+export const isSafeUrl = (url: string) => /^https?:\/\//i.test(url)
@@ -16,18 +16,163 @@ export interface CountedObject {
   instances: CountedObjectInstance[];
 }
 
+export interface FocusedObject {
+  label: string; // e.g. "apel #2"
+  boundingBox: BoundingBox; // Relative to the frame the object was counted in
+}
+
+export interface HighlightSelection extends FocusedObject {
+  objectName: string;
+  instanceIndex: number; // 0-based index within the object's instances
+  sourceFrameDataUri?: string; // The frame the highlights were computed from
+}
+
+export interface RegionSelection {
+  frameDataUri: string; // Frozen frame the region is drawn on
+  region: BoundingBox | null; // Normalized to the frozen frame; null until the user has drawn one
+  includeFullFrame: boolean; // Also send the full frame with the region coordinates
+}
+
+export type FrameFormat = 'jpeg' | 'webp' | 'avif';
+
+export interface FrameEncodingOptions {
+  maxDimension: number; // Longest side in pixels; larger frames are scaled down
+  format: FrameFormat; // Preferred format; JPEG is used where the browser cannot encode it
+  quality: number; // Starting quality, 0 to 1
+  minQuality: number; // Quality is lowered towards this before the frame is scaled down further
+  maxBytes: number; // Byte budget of the encoded image
+}
+
+export interface SentImageInfo {
+  width: number;
+  height: number;
+  bytes: number; // Encoded size, without the data URI's base64 overhead
+  format: FrameFormat;
+  quality: number;
+}
+
+export interface EncodedFrame extends SentImageInfo {
+  dataUri: string;
+}
+
+export type FrameQualityIssue = 'blurry' | 'dark' | 'glare';
+
+export interface FrameQualityScores {
+  sharpness: number; // Variance of the Laplacian of the downsampled grayscale frame; higher is sharper
+  brightness: number; // Mean luminance, 0 to 255
+  darkFraction: number; // Share of pixels that are nearly black
+  clippedFraction: number; // Share of pixels that are blown out to white
+  score: number; // Overall quality, 0 (unusable) to 1
+  issues: FrameQualityIssue[];
+}
+
+export interface QualityCheckedFrame extends EncodedFrame {
+  frameQuality?: FrameQualityScores; // Unset for a frozen region-selection frame, which is sent as frozen
+}
+
+export interface AttachedImage extends EncodedFrame {
+  name?: string; // Original file name, if any
+}
+
+export interface Citation {
+  title: string;
+  url: string;
+  snippet?: string;
+  claim: string; // The part of the answer this source supports
+}
+
+export type BuiltInAssistantModeId = 'general' | 'accessibility' | 'inventory' | 'document' | 'tutor';
+
+export type AssistantToolName = 'searchInternetTool';
+
+export type ObjectCountingMode = 'never' | 'onRequest' | 'always';
+
+export interface AssistantMode {
+  id: string; // A BuiltInAssistantModeId, or a generated id for a custom mode
+  label: string;
+  description: string;
+  instructions: string; // Persona and task instructions added to the prompt
+  tools: AssistantToolName[]; // Tools the model may call in this mode
+  countObjects: ObjectCountingMode; // Whether answers count and locate objects
+  tts: { enabled: boolean; rate: number }; // Speech defaults applied when the mode is selected
+}
+
+export interface AssistantModeRef {
+  id: string;
+  label: string;
+}
+
+// Mirrors UsageSchema in src/ai/usage.ts.
+export interface MessageUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  imageTokens: number; // Estimated when the provider does not report them
+  inputImages: number;
+  toolCalls: number;
+  modelCalls: number; // 0 when the answer came from the cache
+  latencyMs: number;
+  cost?: { amount: number; currency: string }; // Estimated from the server's price table
+}
+
+// Codes of the structured errors returned by the AI flows; see src/ai/flow-errors.ts.
+export type FlowErrorCode =
+  | 'RATE_LIMITED'
+  | 'MODEL_UNAVAILABLE'
+  | 'MODEL_EMPTY_OUTPUT'
+  | 'IMAGE_TOO_LARGE'
+  | 'SAFETY_BLOCKED'
+  | 'TOOL_FAILED'
+  | 'INTERNAL';
+
 export interface ChatMessageData {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  createdAt?: number; // Optional: epoch milliseconds; older messages only carry it in their id
   image?: string; // Optional: dataURI of an image associated with the message
   isError?: boolean; // Optional: flag for error messages
+  errorCode?: FlowErrorCode; // Optional: why an error message failed, when the flow reported it
   countedObjects?: CountedObject[]; // Optional: for messages containing object counting results
+  citations?: Citation[]; // Optional: sources referenced in the content as [1], [2], ...
+  focus?: FocusedObject; // Optional: the highlighted object a follow-up question is about
+  region?: BoundingBox; // Optional: region of interest the question was asked about, relative to the full frame
+  isStreaming?: boolean; // Optional: true while the assistant answer is still being streamed
+  isCancelled?: boolean; // Optional: the user stopped the answer; it is kept on screen but not sent back as history
+  model?: string; // Optional: the model that produced an assistant answer, e.g. a fallback model
+  cached?: boolean; // Optional: the answer was served from the server's response cache
+  usage?: MessageUsage; // Optional: tokens, latency and cost of an assistant answer
+  imageInfo?: SentImageInfo; // Optional: size and encoding of the image sent with a question
+  frameQuality?: FrameQualityScores; // Optional: blur, exposure and glare scores of the camera frame sent with a question
+  mode?: AssistantModeRef; // Optional: the assistant mode the question was asked in or the answer was given in
+  promptVersion?: string; // Optional: version of the prompt template that produced an assistant answer
 }
 
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  historySummary?: HistorySummary; // Summary of the turns older than the verbatim history window
+}
+
+export interface HistorySummary {
+  text: string;
+  throughMessageId: string; // Newest message folded into the summary
+  updatedAt: number;
+}
+
+export type HighlightStyle = 'circle' | 'rectangle';
+
 export interface CameraFeedRefType {
-  captureCurrentFrame: () => string | null;
+  captureCurrentFrame: (encoding?: FrameEncodingOptions) => EncodedFrame | null; // Defaults to the standard encoding preset
+  captureSteadyFrame: (encoding?: FrameEncodingOptions) => Promise<QualityCheckedFrame | null>; // Keeps the sharpest frame of a short burst, scored for blur, exposure and glare
+  sampleSceneSignature: () => Uint8Array | null; // Tiny grayscale copy of the live video for scene-change detection; null when no video frame is available
   toggleFacingMode: () => void; // Added method to toggle camera facing mode
-  drawHighlights: (objects: CountedObject[] | null) => void; // Method to draw/clear highlights
+  startRegionSelection: () => boolean; // Freezes the current frame for region selection; false if no frame is available
+  cancelRegionSelection: () => void;
+  showStillImage: (image: AttachedImage | null) => void; // Shows an uploaded image in place of the live video; null returns to the camera
+  drawHighlights: (objects: CountedObject[] | null, sourceFrameDataUri?: string) => void; // Method to draw/clear highlights, optionally remembering the frame they belong to
 }
 